@@ -0,0 +1,34 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { fetchMutation } from 'convex/nextjs';
+import { api } from '@/convex/_generated/api';
+import type { Id } from '@/convex/_generated/dataModel';
+import { getConvexAuthOptions } from '@/lib/admin';
+
+/**
+ * Admin Server Actions
+ *
+ * Row actions for the signups table, run as the signed-in admin.
+ */
+
+export async function deleteSignupAction(formData: FormData) {
+  await fetchMutation(
+    api.signups.deleteSignup,
+    { signupId: formData.get('signupId') as Id<'signups'> },
+    await getConvexAuthOptions()
+  );
+  revalidatePath('/admin');
+}
+
+export async function setTestSignupAction(formData: FormData) {
+  await fetchMutation(
+    api.signups.setTestSignup,
+    {
+      signupId: formData.get('signupId') as Id<'signups'>,
+      isTest: formData.get('isTest') === 'true',
+    },
+    await getConvexAuthOptions()
+  );
+  revalidatePath('/admin');
+}
@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { SignOutButton } from "@/components/admin/sign-out-button";
+
+export const metadata: Metadata = {
+  title: "Gist GEO - Admin",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <div className="min-h-screen bg-neutral-950 text-white/90">
+      <header className="flex items-center gap-6 border-b border-white/10 px-6 py-4">
+        <Link href="/admin" className="text-[20px] font-bold">
+          <span className="text-white/60">Gist</span>{" "}
+          <span className="geo-gradient-text">GEO</span>{" "}
+          <span className="text-[14px] font-medium text-white/60">admin</span>
+        </Link>
+        <SignOutButton />
+      </header>
+      <main className="px-6 py-6">{children}</main>
+    </div>
+  );
+}
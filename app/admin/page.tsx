@@ -0,0 +1,239 @@
+import Link from "next/link";
+import { fetchQuery } from "convex/nextjs";
+import { api } from "@/convex/_generated/api";
+import { getConvexAuthOptions } from "@/lib/admin";
+import { cn } from "@/lib/utils";
+import { deleteSignupAction, setTestSignupAction } from "./actions";
+
+/**
+ * Admin Signups Dashboard
+ *
+ * GET /admin
+ *
+ * Paginated, sortable table of signups with email prefix search and
+ * source / date-range filters. All state lives in the query string so
+ * views can be bookmarked and shared.
+ */
+
+export const dynamic = "force-dynamic";
+
+const PAGE_SIZE = 50;
+const STATUSES = ["pending", "confirmed", "unsubscribed"] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SearchParams = {
+  q?: string;
+  source?: string;
+  status?: string;
+  from?: string;
+  to?: string;
+  sort?: string;
+  order?: string;
+  cursor?: string;
+};
+
+/**
+ * Build an /admin URL from the current params with some overridden
+ */
+function buildHref(params: SearchParams, overrides: Partial<SearchParams>) {
+  const merged = { ...params, ...overrides };
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(merged)) {
+    if (value) query.set(key, value);
+  }
+  const search = query.toString();
+  return search ? `/admin?${search}` : "/admin";
+}
+
+/**
+ * Parse a YYYY-MM-DD date input to epoch milliseconds (UTC)
+ */
+function parseDate(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+export default async function AdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const params = await searchParams;
+  const sortBy = params.sort === "email" ? "email" : "createdAt";
+  const status = STATUSES.find((s) => s === params.status);
+  const order = params.order === "asc" ? "asc" : "desc";
+  const createdTo = parseDate(params.to);
+
+  const page = await fetchQuery(
+    api.signups.listSignups,
+    {
+      paginationOpts: { numItems: PAGE_SIZE, cursor: params.cursor ?? null },
+      sortBy,
+      order,
+      emailPrefix: params.q || undefined,
+      source: params.source || undefined,
+      status,
+      createdFrom: parseDate(params.from),
+      // Make the "to" date inclusive of the whole day
+      createdTo: createdTo === undefined ? undefined : createdTo + DAY_MS - 1,
+    },
+    await getConvexAuthOptions()
+  );
+
+  const sortHeader = (column: "createdAt" | "email", label: string) => {
+    const active = sortBy === column;
+    const nextOrder = active && order === "desc" ? "asc" : "desc";
+    return (
+      <Link
+        href={buildHref(params, { sort: column, order: nextOrder, cursor: undefined })}
+        className={cn("hover:text-white", active && "text-white")}
+      >
+        {label}
+        {active && (order === "desc" ? " ↓" : " ↑")}
+      </Link>
+    );
+  };
+
+  const inputClass =
+    "rounded-md border border-white/10 bg-white/5 px-3 py-1.5 text-[14px] text-white placeholder:text-white/40 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white/40";
+
+  // Export honours the same filters (email prefix search is not exported)
+  const exportHref = (format: "csv" | "ndjson") => {
+    const query = new URLSearchParams({ format });
+    if (params.source) query.set("source", params.source);
+    if (status) query.set("status", status);
+    if (params.from) query.set("from", params.from);
+    if (params.to) query.set("to", params.to);
+    return `/api/admin/signups/export?${query}`;
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center gap-4">
+        <h1 className="text-[24px] font-bold">Signups</h1>
+        <div className="ml-auto flex gap-2 text-[14px]">
+          <a href={exportHref("csv")} className="rounded-md bg-white/10 px-3 py-1.5 hover:bg-white/20">
+            Export CSV
+          </a>
+          <a href={exportHref("ndjson")} className="rounded-md bg-white/10 px-3 py-1.5 hover:bg-white/20">
+            Export NDJSON
+          </a>
+        </div>
+      </div>
+
+      {/* Search & filters (GET form keeps state in the URL) */}
+      <form method="get" className="flex flex-wrap items-end gap-3">
+        <input type="hidden" name="sort" value={sortBy} />
+        <input type="hidden" name="order" value={order} />
+        <label className="flex flex-col gap-1 text-[12px] text-white/60">
+          Email starts with
+          <input name="q" defaultValue={params.q} placeholder="jane@" className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-[12px] text-white/60">
+          Source
+          <input name="source" defaultValue={params.source} placeholder="landing-page" className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-[12px] text-white/60">
+          Status
+          <select name="status" defaultValue={status ?? ""} className={inputClass}>
+            <option value="">Any</option>
+            {STATUSES.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-[12px] text-white/60">
+          From
+          <input type="date" name="from" defaultValue={params.from} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-[12px] text-white/60">
+          To
+          <input type="date" name="to" defaultValue={params.to} className={inputClass} />
+        </label>
+        <button type="submit" className="rounded-md bg-white/10 px-4 py-1.5 text-[14px] hover:bg-white/20">
+          Apply
+        </button>
+        <Link href="/admin" className="px-2 py-1.5 text-[14px] text-white/60 hover:text-white">
+          Reset
+        </Link>
+      </form>
+
+      {/* Signups table */}
+      <div className="overflow-x-auto rounded-[10px] border border-white/10">
+        <table className="w-full text-left text-[14px]">
+          <thead className="bg-white/5 text-[12px] uppercase tracking-[0.12px] text-white/60">
+            <tr>
+              <th className="px-4 py-3">{sortHeader("email", "Email")}</th>
+              <th className="px-4 py-3">Source</th>
+              <th className="px-4 py-3">{sortHeader("createdAt", "Created")}</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {page.page.map((signup) => (
+              <tr key={signup._id} className={cn("border-t border-white/10", signup.isTest && "text-white/40")}>
+                <td className="px-4 py-2">
+                  {signup.email}
+                  {signup.isTest && (
+                    <span className="ml-2 rounded bg-white/10 px-1.5 py-0.5 text-[11px]">test</span>
+                  )}
+                </td>
+                <td className="px-4 py-2">{signup.source ?? "—"}</td>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  {new Date(signup._creationTime).toLocaleString("en-US", {
+                    timeZone: "America/Los_Angeles",
+                  })}
+                </td>
+                <td className="px-4 py-2">{signup.status ?? "—"}</td>
+                <td className="px-4 py-2">
+                  <div className="flex justify-end gap-2">
+                    <form action={setTestSignupAction}>
+                      <input type="hidden" name="signupId" value={signup._id} />
+                      <input type="hidden" name="isTest" value={String(!signup.isTest)} />
+                      <button type="submit" className="rounded-md px-2 py-1 text-[12px] hover:bg-white/10">
+                        {signup.isTest ? "Unmark test" : "Mark as test"}
+                      </button>
+                    </form>
+                    <form action={deleteSignupAction}>
+                      <input type="hidden" name="signupId" value={signup._id} />
+                      <button type="submit" className="rounded-md px-2 py-1 text-[12px] text-red-300 hover:bg-red-500/20">
+                        Delete
+                      </button>
+                    </form>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {page.page.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-white/60">
+                  No signups match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex justify-between text-[14px]">
+        {params.cursor ? (
+          <Link href={buildHref(params, { cursor: undefined })} className="text-white/60 hover:text-white">
+            ← First page
+          </Link>
+        ) : (
+          <span />
+        )}
+        {!page.isDone && (
+          <Link href={buildHref(params, { cursor: page.continueCursor })} className="text-white/60 hover:text-white">
+            Next page →
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchQuery } from 'convex/nextjs';
+import { api } from '@/convex/_generated/api';
+import type { Doc } from '@/convex/_generated/dataModel';
+import { createLogger, newRequestId } from '@/convex/lib/logger';
+import { getConvexAuthOptions } from '@/lib/admin';
+import { csvCell } from '@/lib/csv';
+
+/**
+ * Signup Export Endpoint
+ *
+ * GET /api/admin/signups/export
+ *
+ * Streams the signup list as CSV (default) or NDJSON for spreadsheets and
+ * marketing tools. Rows are fetched from Convex page by page, so exports
+ * of any size stay within Convex function limits and memory stays flat.
+ *
+ * Security:
+ * - Admin only: the proxy rejects non-admins and Convex re-checks the role
+ *
+ * Query Parameters:
+ * - format: "csv" | "ndjson" (default: csv)
+ * - source: Only signups from this source
+ * - status: "pending" | "confirmed" | "unsubscribed"
+ * - from / to: Creation date range, YYYY-MM-DD (inclusive, UTC)
+ *
+ * @returns Streaming file download
+ */
+
+// Rows fetched from Convex per page
+const PAGE_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUSES = ['pending', 'confirmed', 'unsubscribed'] as const;
+type SignupStatus = (typeof STATUSES)[number];
+
+const CSV_COLUMNS = [
+  'id',
+  'email',
+  'source',
+  'status',
+  'createdAt',
+  'confirmedAt',
+  'utmSource',
+  'utmMedium',
+  'utmCampaign',
+  'referrer',
+  'companyDomain',
+  'role',
+  'aiEngines',
+  'isTest',
+] as const;
+
+type ExportRow = Record<(typeof CSV_COLUMNS)[number], string | boolean | null>;
+
+function toExportRow(signup: Doc<'signups'>): ExportRow {
+  return {
+    id: signup._id,
+    email: signup.email,
+    source: signup.source ?? null,
+    status: signup.status ?? null,
+    createdAt: new Date(signup._creationTime).toISOString(),
+    confirmedAt: signup.confirmedAt
+      ? new Date(signup.confirmedAt).toISOString()
+      : null,
+    utmSource: signup.attribution?.utmSource ?? null,
+    utmMedium: signup.attribution?.utmMedium ?? null,
+    utmCampaign: signup.attribution?.utmCampaign ?? null,
+    referrer: signup.attribution?.referrer ?? null,
+    companyDomain: signup.profile?.companyDomain ?? null,
+    role: signup.profile?.role ?? null,
+    aiEngines: signup.profile?.aiEngines?.join(' ') ?? null,
+    isTest: signup.isTest ?? false,
+  };
+}
+
+function parseDate(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const format = params.get('format') ?? 'csv';
+  const status = params.get('status');
+
+  if (format !== 'csv' && format !== 'ndjson') {
+    return NextResponse.json(
+      { error: 'format must be "csv" or "ndjson"' },
+      { status: 400 }
+    );
+  }
+
+  if (status && !STATUSES.includes(status as SignupStatus)) {
+    return NextResponse.json(
+      { error: `status must be one of: ${STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const createdTo = parseDate(params.get('to'));
+  const filters = {
+    source: params.get('source') || undefined,
+    status: (status || undefined) as SignupStatus | undefined,
+    createdFrom: parseDate(params.get('from')),
+    createdTo: createdTo === undefined ? undefined : createdTo + DAY_MS - 1,
+  };
+  const authOptions = await getConvexAuthOptions();
+  const encoder = new TextEncoder();
+  const log = createLogger({
+    requestId: request.headers.get('x-request-id') || newRequestId(),
+    route: 'export',
+  });
+  const finish = log.time();
+
+  // Oldest first, so rows added mid-export land on later pages
+  const fetchSignupPage = (cursor: string | null) =>
+    fetchQuery(
+      api.signups.listSignups,
+      {
+        paginationOpts: { numItems: PAGE_SIZE, cursor },
+        sortBy: 'createdAt',
+        order: 'asc',
+        ...filters,
+      },
+      authOptions
+    );
+
+  let cursor: string | null = null;
+  let exported = 0;
+
+  // One page per pull: the next page is only fetched once the client has
+  // read the last one
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(`${CSV_COLUMNS.join(',')}\n`));
+      }
+    },
+    async pull(controller) {
+      try {
+        const page = await fetchSignupPage(cursor);
+
+        const lines = page.page.map((signup) => {
+          const row = toExportRow(signup);
+          return format === 'csv'
+            ? CSV_COLUMNS.map((column) => csvCell(row[column])).join(',')
+            : JSON.stringify(row);
+        });
+        if (lines.length > 0) {
+          controller.enqueue(encoder.encode(`${lines.join('\n')}\n`));
+        }
+        exported += page.page.length;
+
+        if (page.isDone) {
+          finish('info', 'export.completed', { format, exported, filters });
+          controller.close();
+        } else {
+          cursor = page.continueCursor;
+        }
+      } catch (error) {
+        finish('error', 'export.failed', { format, exported, error });
+        controller.error(error);
+      }
+    },
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  const extension = format === 'csv' ? 'csv' : 'ndjson';
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type':
+        format === 'csv'
+          ? 'text/csv; charset=utf-8'
+          : 'application/x-ndjson; charset=utf-8',
+      'Content-Disposition': `attachment; filename="signups-${date}.${extension}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
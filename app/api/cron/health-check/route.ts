@@ -1,45 +1,120 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { executeHealthCheck, sendSlackAlert } from '@/lib/health-check';
-import type { HealthCheckResult } from '@/lib/health-check';
+import { fetchMutation } from 'convex/nextjs';
+import { api } from '@/convex/_generated/api';
+import { createLogger, newRequestId } from '@/convex/lib/logger';
+import {
+  formatHealthAlert,
+  formatSlackAlert,
+  getAlertSeverity,
+  getConfiguredNotifiers,
+  notifyAll,
+  runHealthCheck,
+  runTlsCheck,
+} from '@/lib/health-check';
+import { HEALTH_CHECKS, TLS_CHECKS } from '@/lib/health-check-registry';
+import { getCronSecrets, hasBearerSecret } from '@/lib/secrets';
+import { SIGNUP_FLOW_CHECK, runSyntheticSignupCheck } from '@/lib/synthetic-signup';
+import type {
+  AlertSeverity,
+  CertificateInfo,
+  HealthAlertEvent,
+  HealthCheckResult,
+  NotificationResult,
+  TlsCheckResult,
+} from '@/lib/health-check';
+
+// Events the incident state machine can produce
+type IncidentEvent = Extract<HealthAlertEvent, { kind: 'opened' | 'still_failing' | 'recovered' }>;
+
+type CertificateEvent = Extract<
+  HealthAlertEvent,
+  { kind: 'certificate_expiring' | 'certificate_renewed' }
+>;
+
+// Default time between "still failing" reminders; override with INCIDENT_RENOTIFY_MINUTES
+const DEFAULT_RENOTIFY_MINUTES = 60;
 
 /**
  * Health Check Cron Job Handler
  *
  * GET /api/cron/health-check
+ * GET /api/cron/health-check?dryRun=1
  *
  * This endpoint is triggered by Vercel Cron every 5 minutes to monitor
  * application health. It performs the following:
  *
- * 1. Verifies authorization via CRON_SECRET header
+ * 1. Verifies authorization via CRON_SECRET header (constant-time)
  * 2. Executes health checks on critical endpoints (with retry logic)
- * 3. Sends Slack alerts if health checks fail after retry
- * 4. Logs all results for debugging
+ * 3. Records the run in Convex: per-check results for the /status page
+ *    and the incident state
+ * 4. Fans alerts, reminders and recovery notices out to every configured
+ *    channel (see getConfiguredNotifiers) as the incident opens, persists
+ *    and resolves, reporting delivery per channel
+ * 5. Records the run (timing, results, alerts) in Convex; /api/health
+ *    reports degraded when no run has completed recently
+ * 6. Logs all results for debugging
  *
  * Security:
  * - Requires Authorization: Bearer <CRON_SECRET> header
+ * - CRON_SECRET_PREVIOUS is accepted too while a rotation is under way
  * - Returns 401 Unauthorized if secret is missing or incorrect
  *
- * Health Checks:
- * - Homepage: Verifies main landing page is accessible
- * - /api/health: Verifies API health endpoint returns valid data
+ * Dry run (`?dryRun=1`), for triggering a run by hand:
+ * - Executes every check a scheduled run would, except the synthetic
+ *   signup, which writes to Convex
+ * - Records nothing in Convex (not even the run) and sends no alerts
+ * - Returns the alert a failing run would post (from formatHealthAlert)
+ *   and the channels that would receive it
+ * - Previews a warning for every certificate inside a threshold, with
+ *   its channels; a scheduled run skips thresholds already announced
+ *
+ * Health Checks (lib/health-check-registry.ts):
+ * - homepage: Landing page renders its signup call to action
+ * - api-health: /api/health reports ok or degraded
+ * Each check declares its expected status, body/JSON assertions, latency
+ * SLO and retry policy (exponential backoff with jitter).
+ *
+ * TLS certificates (TLS_CHECKS in the registry):
+ * - tls-certificate: the site's certificate is trusted, valid now and
+ *   covers the host; otherwise the check fails like any other
+ * - Each TLS_WARN_DAYS threshold (default 21, 7 and 1 days left) sends
+ *   one "certificate expiring" warning per certificate
+ * - Once a warned-about host serves a certificate outside every
+ *   threshold, a "certificate renewed" notice resolves the warning
+ *
+ * Synthetic signup (lib/synthetic-signup.ts, needs MONITOR_SECRET and
+ * SIGNUP_SECRET):
+ * - signup-flow: submits a reserved address through createSignup twice,
+ *   expects a new signup then a duplicate, and removes the flagged row
+ * - Disable with SYNTHETIC_SIGNUP_CHECK=false
  *
  * Alert Logic:
- * - Each check attempts up to 2 times (initial + 1 retry)
- * - Alert is sent only if check fails after all retry attempts
- * - Alert includes detailed error information and timestamps
+ * - A check fails only after all of its retry attempts fail
+ * - A run fails if any check fails after all retry attempts
+ * - The first failing run opens an incident and sends an alert
+ * - Further failing runs send a "still failing" reminder at most once per
+ *   INCIDENT_RENOTIFY_MINUTES (default 60)
+ * - The first passing run resolves the incident and reports total downtime
+ * - Each channel only receives the severities it is routed (critical on
+ *   open, warning for reminders, info on recovery)
+ * - If incident state can't be reached (MONITOR_SECRET unset or Convex
+ *   down), every failing run alerts so an outage is never silent
  *
  * @returns JSON response with check results
  */
 export async function GET(request: NextRequest) {
-  console.log('[CRON] Health check started');
+  // One run ID ties together every log line of this run, here and in Convex
+  const runId = request.headers.get('x-request-id') || newRequestId();
+  const log = createLogger({ runId });
+  const finish = log.time();
+  log.info('cron.started');
 
   // Step 1: Verify authorization
-  const authHeader = request.headers.get('authorization');
-  const expectedSecret = process.env.CRON_SECRET;
+  const secrets = getCronSecrets();
 
   // Fail closed: if CRON_SECRET is not configured, reject all requests
-  if (!expectedSecret) {
-    console.error('[CRON] CRON_SECRET not configured - rejecting request');
+  if (secrets.length === 0) {
+    log.error('cron.rejected', { reason: 'secret_not_configured' });
     return NextResponse.json(
       { error: 'Cron secret not configured' },
       { status: 401 }
@@ -47,34 +122,52 @@ export async function GET(request: NextRequest) {
   }
 
   // Verify authorization header format and value
-  const expectedAuth = `Bearer ${expectedSecret}`;
-  if (!authHeader || authHeader !== expectedAuth) {
-    console.error('[CRON] Unauthorized request - invalid or missing authorization header');
+  if (!hasBearerSecret(request.headers.get('authorization'), secrets)) {
+    log.warn('cron.rejected', { reason: 'unauthorized' });
     return NextResponse.json(
       { error: 'Unauthorized' },
       { status: 401 }
     );
   }
 
-  console.log('[CRON] Authorization verified');
-
   // Step 2: Determine base URL for health checks
   const protocol = process.env.NODE_ENV === 'production' ? 'https' : 'http';
   const host = request.headers.get('host') || 'localhost:3000';
   const baseUrl = `${protocol}://${host}`;
 
-  console.log(`[CRON] Checking health for: ${baseUrl}`);
+  const dryRun = isDryRun(request);
+  log.info('cron.checking', { baseUrl, checks: HEALTH_CHECKS.length, dryRun });
 
   // Step 3: Execute health checks with retry logic
   const startTime = Date.now();
 
-  const results: HealthCheckResult[] = await Promise.all([
-    // Check 1: Homepage
-    executeHealthCheck(`${baseUrl}/`, 1, 5000),
+  const monitorSecret = process.env.MONITOR_SECRET;
+  const syntheticSignup = process.env.SYNTHETIC_SIGNUP_CHECK !== 'false';
+  if (syntheticSignup && dryRun) {
+    // It inserts and removes a signup and spends rate-limit tokens
+    log.info('health_check.skipped', { check: SIGNUP_FLOW_CHECK.name, reason: 'dry_run' });
+  } else if (syntheticSignup && !monitorSecret) {
+    log.warn('health_check.skipped', {
+      check: SIGNUP_FLOW_CHECK.name,
+      reason: 'monitor_secret_not_configured',
+    });
+  }
+
+  // Certificates of the checked deployment only exist over HTTPS
+  const tlsChecks = TLS_CHECKS.filter(
+    check => check.host || baseUrl.startsWith('https:')
+  );
 
-    // Check 2: Health API endpoint
-    executeHealthCheck(`${baseUrl}/api/health`, 1, 5000),
+  const [checkResults, tlsResults] = await Promise.all([
+    Promise.all([
+      ...HEALTH_CHECKS.map(check => runHealthCheck(check, baseUrl, log)),
+      ...(syntheticSignup && monitorSecret && !dryRun
+        ? [runSyntheticSignupCheck(monitorSecret, log)]
+        : []),
+    ]),
+    Promise.all(tlsChecks.map(check => runTlsCheck(check, baseUrl, log))),
   ]);
+  const results: HealthCheckResult[] = [...checkResults, ...tlsResults];
 
   const duration = Date.now() - startTime;
 
@@ -82,40 +175,280 @@ export async function GET(request: NextRequest) {
   const allPassed = results.every(r => r.success);
   const failedChecks = results.filter(r => !r.success);
 
-  console.log(`[CRON] Health checks completed in ${duration}ms`);
-  console.log(`[CRON] Results: ${results.length - failedChecks.length}/${results.length} passed`);
+  log.info('cron.checks_completed', {
+    durationMs: duration,
+    passed: results.length - failedChecks.length,
+    failed: failedChecks.length,
+  });
+
+  if (dryRun) {
+    // A failing run is previewed as a newly opened incident
+    const severity = getAlertSeverity({ kind: 'opened', baseUrl, results, openedAt: startTime });
+    const alert = allPassed ? null : formatHealthAlert(results, baseUrl);
+    const channels = allPassed ? [] : getChannelsFor(severity);
+
+    const certificateWarnings = tlsResults.flatMap(result => {
+      const certificate = result.certificate;
+      if (!result.success || !certificate || certificate.warnThreshold === null) {
+        return [];
+      }
+      const warning = getCertificateEvent('certificate_expiring', result.host, certificate, baseUrl);
+      return [{
+        host: result.host,
+        threshold: certificate.warnThreshold,
+        alert: formatSlackAlert(warning),
+        channels: getChannelsFor(getAlertSeverity(warning)),
+      }];
+    });
 
-  // Step 5: Send Slack alert if any checks failed
-  if (!allPassed) {
-    console.log(`[CRON] ⚠️ ${failedChecks.length} check(s) failed - sending alert`);
+    finish('info', 'cron.dry_run_completed', {
+      success: allPassed,
+      channels,
+      certificateWarnings: certificateWarnings.length,
+    });
+
+    return NextResponse.json({
+      runId,
+      dryRun: true,
+      success: allPassed,
+      timestamp: new Date().toISOString(),
+      duration,
+      results: formatResults(results),
+      certificates: formatCertificates(tlsResults),
+      alert,
+      channels,
+      certificateWarnings,
+    });
+  }
+
+  // Keep results for uptime history; failing to store them never blocks alerts
+  try {
+    await persistCheckResults(results, runId);
+  } catch (error) {
+    log.error('cron.persist_failed', { error });
+  }
+
+  // Step 5: Update incident state and notify on transitions
+  let event: IncidentEvent | null = null;
+
+  try {
+    const incident = await recordIncidentState(results, runId);
+
+    if (incident.notify === 'opened' || incident.notify === 'still_failing') {
+      log.warn(`incident.${incident.notify}`, { failed: failedChecks.length });
+      event = { kind: incident.notify, baseUrl, results, openedAt: incident.openedAt };
+    } else if (incident.notify === 'recovered') {
+      log.info('incident.recovered', {
+        downtimeMs: incident.resolvedAt - incident.openedAt,
+      });
+      event = {
+        kind: 'recovered',
+        baseUrl,
+        openedAt: incident.openedAt,
+        resolvedAt: incident.resolvedAt,
+      };
+    } else if (!allPassed) {
+      log.info('incident.suppressed', { failed: failedChecks.length });
+    }
+  } catch (error) {
+    log.error('incident.state_unavailable', { error });
+    if (!allPassed) {
+      event = { kind: 'opened', baseUrl, results, openedAt: Date.now() };
+    }
+  }
+
+  const deliveries: NotificationResult[] = event
+    ? await notifyAll(event, undefined, log)
+    : [];
+
+  // Step 5b: Warn once per threshold about certificates nearing expiry,
+  // and resolve the warning once the certificate is renewed
+  for (const result of tlsResults) {
+    const certificate = result.certificate;
+    // A failing certificate is an outage, handled as an incident above
+    if (!result.success || !certificate) {
+      continue;
+    }
 
     try {
-      const alertSent = await sendSlackAlert(results, baseUrl);
-      if (alertSent) {
-        console.log('[CRON] ✅ Alert sent successfully');
-      } else {
-        console.error('[CRON] ❌ Failed to send alert');
+      const { notify } = await fetchMutation(api.certificates.recordCertificateCheck, {
+        secret: getMonitorSecret(),
+        host: result.host,
+        validTo: certificate.validTo,
+        threshold: certificate.warnThreshold,
+        runId,
+      });
+      if (notify !== 'none') {
+        const kind = notify === 'warning' ? 'certificate_expiring' : 'certificate_renewed';
+        deliveries.push(
+          ...(await notifyAll(
+            getCertificateEvent(kind, result.host, certificate, baseUrl),
+            undefined,
+            log
+          ))
+        );
       }
     } catch (error) {
-      console.error('[CRON] Error sending alert:', error);
+      // Unlike an outage, a warning can wait for the next run
+      log.error('certificate.state_unavailable', { host: result.host, error });
     }
-  } else {
-    console.log('[CRON] ✅ All health checks passed - no alert needed');
   }
+  const alertsSent = deliveries.filter(d => d.delivered).map(d => d.channel);
+  const alertsFailed = deliveries
+    .filter(d => !d.delivered && !d.skipped)
+    .map(d => d.channel);
+
+  // Step 6: Record the run; its absence is what flags a dead cron
+  try {
+    await fetchMutation(api.cronRuns.recordCronRun, {
+      secret: getMonitorSecret(),
+      runId,
+      startedAt: startTime,
+      durationMs: Date.now() - startTime,
+      success: allPassed,
+      results: results.map(r => ({
+        check: r.name ?? r.url,
+        success: r.success,
+        status: r.status,
+        responseTime: r.responseTime,
+        error: r.error,
+        attempts: r.attempts,
+      })),
+      notice: event?.kind ?? 'none',
+      alertsSent,
+      alertsFailed,
+    });
+  } catch (error) {
+    log.error('cron.record_failed', { error });
+  }
+
+  finish(allPassed ? 'info' : 'warn', 'cron.completed', {
+    success: allPassed,
+    notice: event?.kind ?? 'none',
+    delivered: alertsSent,
+    failedDeliveries: alertsFailed,
+  });
 
-  // Step 6: Return results for logging
+  // Step 7: Return results for logging
   return NextResponse.json({
+    runId,
     success: allPassed,
     timestamp: new Date().toISOString(),
     duration,
+    results: formatResults(results),
+    certificates: formatCertificates(tlsResults),
+    notice: event?.kind ?? 'none',
+    alertSent: deliveries.some(d => d.delivered),
+    deliveries,
+  });
+}
+
+/**
+ * Whether the caller asked for a dry run (`?dryRun`, `?dryRun=1`, `?dryRun=true`)
+ */
+function isDryRun(request: NextRequest): boolean {
+  const value = request.nextUrl.searchParams.get('dryRun');
+  return value !== null && value !== '0' && value !== 'false';
+}
+
+/**
+ * Channel types routed a severity
+ */
+function getChannelsFor(severity: AlertSeverity): string[] {
+  return getConfiguredNotifiers()
+    .filter(notifier => notifier.severities.includes(severity))
+    .map(notifier => notifier.type);
+}
+
+/**
+ * Expiry warning or renewal notice for the certificate a TLS check received
+ */
+function getCertificateEvent(
+  kind: CertificateEvent['kind'],
+  host: string,
+  certificate: CertificateInfo,
+  baseUrl: string
+): CertificateEvent {
+  return {
+    kind,
+    baseUrl,
+    host,
+    validTo: certificate.validTo,
+    daysRemaining: certificate.daysRemaining,
+  };
+}
+
+/**
+ * Per-check results as returned in the response body
+ */
+function formatResults(results: HealthCheckResult[]) {
+  return results.map(r => ({
+    name: r.name,
+    url: r.url,
+    success: r.success,
+    status: r.status,
+    attempts: r.attempts,
+    responseTime: r.responseTime,
+    error: r.error,
+  }));
+}
+
+/**
+ * Certificate details from TLS checks, as returned in the response body
+ */
+function formatCertificates(results: TlsCheckResult[]) {
+  return results.map(r => ({
+    name: r.name,
+    host: r.host,
+    success: r.success,
+    ...(r.certificate
+      ? {
+          validTo: new Date(r.certificate.validTo).toISOString(),
+          daysRemaining: r.certificate.daysRemaining,
+          warnThreshold: r.certificate.warnThreshold,
+        }
+      : {}),
+  }));
+}
+
+/**
+ * Report this run to Convex and learn which notice (if any) to send
+ */
+async function recordIncidentState(results: HealthCheckResult[], runId: string) {
+  const minutes = Number(process.env.INCIDENT_RENOTIFY_MINUTES);
+  const renotifyMinutes =
+    Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_RENOTIFY_MINUTES;
+
+  return fetchMutation(api.incidents.recordCheckRun, {
+    secret: getMonitorSecret(),
+    healthy: results.every(r => r.success),
+    failedUrls: results.filter(r => !r.success).map(r => r.url),
+    renotifyIntervalMs: renotifyMinutes * 60 * 1000,
+    runId,
+  });
+}
+
+/**
+ * Store each check's outcome for the status page and uptime history
+ */
+async function persistCheckResults(results: HealthCheckResult[], runId: string) {
+  await fetchMutation(api.status.recordCheckResults, {
+    secret: getMonitorSecret(),
+    runId,
     results: results.map(r => ({
-      url: r.url,
+      check: r.name ?? r.url,
       success: r.success,
       status: r.status,
-      attempts: r.attempts,
       responseTime: r.responseTime,
       error: r.error,
     })),
-    alertSent: !allPassed,
   });
 }
+
+function getMonitorSecret(): string {
+  const secret = process.env.MONITOR_SECRET;
+  if (!secret) {
+    throw new Error('MONITOR_SECRET not configured');
+  }
+  return secret;
+}
@@ -1,18 +1,49 @@
-import { NextResponse } from 'next/server';
-import type { HealthCheckResponse } from '@/lib/health-check';
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchQuery } from 'convex/nextjs';
+import { api } from '@/convex/_generated/api';
+import { createLogger, newRequestId } from '@/convex/lib/logger';
+import {
+  combineHealthStatus,
+  getBuildInfo,
+  probeDependency,
+} from '@/lib/health-check';
+import type { DependencyCheck, HealthCheckResponse } from '@/lib/health-check';
+import { getCronSecrets, hasBearerSecret } from '@/lib/secrets';
+
+// Convex ping limits; override with HEALTH_CONVEX_TIMEOUT_MS / HEALTH_CONVEX_DEGRADED_MS
+const DEFAULT_CONVEX_TIMEOUT_MS = 3000;
+const DEFAULT_CONVEX_DEGRADED_MS = 1000;
+
+// The cron fires every 5 minutes (vercel.json); after 3 missed runs it
+// counts as stale. Override with HEALTH_CRON_INTERVAL_MINUTES / HEALTH_CRON_STALE_MULTIPLE
+const DEFAULT_CRON_INTERVAL_MINUTES = 5;
+const DEFAULT_CRON_STALE_MULTIPLE = 3;
 
 /**
  * Health Check Endpoint
  *
  * GET /api/health
+ * GET /api/health?verbose  (requires Authorization: Bearer <CRON_SECRET>)
  *
- * Returns the health status of the application including:
- * - Overall status (ok/error)
+ * Probes the application's dependencies and reports:
+ * - Overall status: ok, degraded (slow but working) or error
  * - Timestamp of the check
- * - Individual system checks (Convex, environment)
+ * - When the monitoring cron last ran successfully
+ * - In verbose mode only: per-check status and latency, build metadata
+ *   and error details
+ *
+ * Checks:
+ * - convex: runs the `health:ping` query, failing after a timeout
+ * - environment: required configuration is present
+ * - cron: the health-check cron completed a successful run within
+ *   HEALTH_CRON_STALE_MULTIPLE × HEALTH_CRON_INTERVAL_MINUTES; a stale,
+ *   failing or never-run cron is degraded, so an external pinger can catch
+ *   a dead monitor
  *
  * This endpoint is designed to be fast (<500ms) and is used by
  * the cron job monitoring system to verify application health.
+ * Without a valid secret `?verbose` is ignored, so public callers never
+ * see internal details.
  *
  * @returns JSON response with health status
  *
@@ -20,73 +51,165 @@ import type { HealthCheckResponse } from '@/lib/health-check';
  * {
  *   "status": "ok",
  *   "timestamp": "2024-11-03T12:00:00.000Z",
+ *   "lastCronRunAt": "2024-11-03T11:55:04.000Z"
+ * }
+ *
+ * Verbose Degraded Response (200):
+ * {
+ *   "status": "degraded",
+ *   "timestamp": "2024-11-03T12:00:00.000Z",
+ *   "lastCronRunAt": "2024-11-03T11:55:04.000Z",
  *   "checks": {
- *     "convex": true,
- *     "environment": true
+ *     "convex": { "status": "degraded", "latencyMs": 1840 },
+ *     "environment": { "status": "ok", "latencyMs": 0 },
+ *     "cron": { "status": "ok", "latencyMs": 0 }
+ *   },
+ *   "build": {
+ *     "commitSha": "3f2c1e9…",
+ *     "deployedAt": "2024-11-03T11:42:10.000Z"
  *   }
  * }
  *
  * Error Response (503):
  * {
  *   "status": "error",
- *   "timestamp": "2024-11-03T12:00:00.000Z",
- *   "checks": {
- *     "convex": false,
- *     "environment": true
- *   },
- *   "error": "Convex URL not configured"
+ *   "timestamp": "2024-11-03T12:00:00.000Z"
  * }
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const verbose =
+    request.nextUrl.searchParams.has('verbose') && isVerboseAuthorized(request);
+  const log = createLogger({
+    requestId: request.headers.get('x-request-id') || newRequestId(),
+    route: 'health',
+  });
+
   try {
     const timestamp = new Date().toISOString();
 
-    // Check 1: Verify Convex connection is configured
-    const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-    const convexHealthy = !!convexUrl && convexUrl.length > 0;
+    // Check 1: Convex answers a real query in time (which also reports
+    // the last cron run)
+    let lastCronRunAt: number | null = null;
+    const convex = await probeDependency(
+      async () => {
+        ({ lastCronRunAt } = await fetchQuery(api.health.ping, {}));
+      },
+      {
+        timeoutMs: numberFromEnv('HEALTH_CONVEX_TIMEOUT_MS', DEFAULT_CONVEX_TIMEOUT_MS),
+        degradedMs: numberFromEnv('HEALTH_CONVEX_DEGRADED_MS', DEFAULT_CONVEX_DEGRADED_MS),
+      }
+    );
 
     // Check 2: Verify environment is properly configured
-    const nodeEnv = process.env.NODE_ENV;
-    const environmentHealthy = !!nodeEnv;
+    const environment = checkEnvironment();
 
-    // Determine overall health status
-    const allHealthy = convexHealthy && environmentHealthy;
+    // Check 3: The monitoring cron is still running
+    const cron = checkCronFreshness(convex, lastCronRunAt);
 
+    const status = combineHealthStatus([
+      convex.status,
+      environment.status,
+      cron.status,
+    ]);
     const response: HealthCheckResponse = {
-      status: allHealthy ? 'ok' : 'error',
+      status,
       timestamp,
-      checks: {
-        convex: convexHealthy,
-        environment: environmentHealthy,
-      },
+      lastCronRunAt:
+        lastCronRunAt === null ? null : new Date(lastCronRunAt).toISOString(),
     };
 
-    // Add error message if any check failed
-    if (!allHealthy) {
-      const errors: string[] = [];
-      if (!convexHealthy) errors.push('Convex URL not configured');
-      if (!environmentHealthy) errors.push('Environment not configured');
-      response.error = errors.join(', ');
+    if (verbose) {
+      response.checks = { convex, environment, cron };
+      response.build = getBuildInfo();
+
+      const errors = Object.entries(response.checks)
+        .filter(([, check]) => check.error)
+        .map(([name, check]) => `${name}: ${check.error}`);
+      if (errors.length > 0) {
+        response.error = errors.join(', ');
+      }
+    }
+
+    if (status !== 'ok') {
+      log.warn('health.unhealthy', { status, convex, environment, cron });
     }
 
-    // Return appropriate HTTP status code
-    const statusCode = allHealthy ? 200 : 503;
+    // Degraded still serves traffic, so it stays 200
+    const statusCode = status === 'error' ? 503 : 200;
 
-    return NextResponse.json(response, { status: statusCode });
+    return NextResponse.json(response, {
+      status: statusCode,
+      headers: { 'Cache-Control': 'no-store' },
+    });
   } catch (error) {
     // Handle unexpected errors gracefully
-    console.error('[HEALTH] Unexpected error:', error);
+    log.error('health.unexpected_error', { error });
 
     const errorResponse: HealthCheckResponse = {
       status: 'error',
       timestamp: new Date().toISOString(),
-      checks: {
-        convex: false,
-        environment: false,
-      },
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
     };
+    if (verbose) {
+      errorResponse.error =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+    }
+
+    return NextResponse.json(errorResponse, {
+      status: 503,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  }
+}
+
+/**
+ * Verbose details are for the monitoring cron and operators only
+ */
+function isVerboseAuthorized(request: NextRequest): boolean {
+  return hasBearerSecret(request.headers.get('authorization'), getCronSecrets());
+}
+
+function checkEnvironment(): DependencyCheck {
+  const missing = ['NODE_ENV', 'NEXT_PUBLIC_CONVEX_URL'].filter(
+    (name) => !process.env[name]
+  );
 
-    return NextResponse.json(errorResponse, { status: 503 });
+  return missing.length > 0
+    ? { status: 'error', latencyMs: 0, error: `Missing ${missing.join(', ')}` }
+    : { status: 'ok', latencyMs: 0 };
+}
+
+/**
+ * Degraded when the last successful cron run is older than the allowed gap
+ */
+function checkCronFreshness(
+  convex: DependencyCheck,
+  lastCronRunAt: number | null
+): DependencyCheck {
+  // Without Convex there is no run history; the convex check already fails
+  if (convex.status === 'error') {
+    return { status: 'degraded', latencyMs: 0, error: 'Last run unknown' };
+  }
+  if (lastCronRunAt === null) {
+    return { status: 'degraded', latencyMs: 0, error: 'No successful cron run recorded' };
   }
+
+  const intervalMinutes = numberFromEnv(
+    'HEALTH_CRON_INTERVAL_MINUTES',
+    DEFAULT_CRON_INTERVAL_MINUTES
+  );
+  const staleMultiple = numberFromEnv('HEALTH_CRON_STALE_MULTIPLE', DEFAULT_CRON_STALE_MULTIPLE);
+  const ageMs = Date.now() - lastCronRunAt;
+
+  return ageMs > intervalMinutes * staleMultiple * 60 * 1000
+    ? {
+        status: 'degraded',
+        latencyMs: 0,
+        error: `Last successful cron run ${Math.round(ageMs / 60000)} minutes ago`,
+      }
+    : { status: 'ok', latencyMs: 0 };
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
 }
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchQuery } from 'convex/nextjs';
+import { api } from '@/convex/_generated/api';
+import { logger } from '@/convex/lib/logger';
+import { formatOpenMetrics, OPENMETRICS_CONTENT_TYPE } from '@/lib/metrics';
+import type { MetricFamily } from '@/lib/metrics';
+import { hasBearerSecret } from '@/lib/secrets';
+
+/**
+ * Metrics Endpoint
+ *
+ * GET /api/metrics
+ *
+ * OpenMetrics text for Prometheus scrapers. Every value is read from
+ * Convex (check rollups and signup counters), so counters keep counting
+ * across deploys and serverless cold starts.
+ *
+ * Security:
+ * - Requires Authorization: Bearer <METRICS_TOKEN>
+ *   (Prometheus: `authorization: { credentials: <token> }`)
+ * - Returns 401 Unauthorized if the token is missing or incorrect
+ *
+ * Metrics:
+ * - gist_geo_health_checks_total{check,result}: cron check outcomes
+ * - gist_geo_health_check_response_time_seconds{check}: latest response time
+ * - gist_geo_signups: current number of signups
+ * - gist_geo_signups_by_source{source}: current signups per source
+ * - gist_geo_duplicate_signups_total: submissions of an already-known address
+ * - gist_geo_rejected_signups_total{reason}: submissions blocked by abuse checks
+ *
+ * @returns OpenMetrics text (200) or JSON error (401/503)
+ */
+export async function GET(request: NextRequest) {
+  const token = process.env.METRICS_TOKEN;
+
+  // Fail closed: if METRICS_TOKEN is not configured, reject all requests
+  if (!hasBearerSecret(request.headers.get('authorization'), [token])) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const secret = process.env.MONITOR_SECRET;
+  if (!secret) {
+    logger.error('metrics.unavailable', { reason: 'monitor_secret_not_configured' });
+    return NextResponse.json({ error: 'Metrics unavailable' }, { status: 503 });
+  }
+
+  let metrics;
+  try {
+    metrics = await fetchQuery(api.metrics.getMetrics, { secret });
+  } catch (error) {
+    logger.error('metrics.unavailable', { reason: 'query_failed', error });
+    return NextResponse.json({ error: 'Metrics unavailable' }, { status: 503 });
+  }
+
+  const signupsBySource = Object.entries(metrics.signupsBySource);
+
+  const families: MetricFamily[] = [
+    {
+      name: 'gist_geo_health_checks',
+      type: 'counter',
+      help: 'Health check outcomes recorded by the monitoring cron.',
+      samples: metrics.checks.flatMap(check => [
+        { labels: { check: check.name, result: 'success' }, value: check.successes },
+        { labels: { check: check.name, result: 'failure' }, value: check.failures },
+      ]),
+    },
+    {
+      name: 'gist_geo_health_check_response_time_seconds',
+      type: 'gauge',
+      unit: 'seconds',
+      help: 'Response time of the most recent run of each health check.',
+      samples: metrics.checks
+        .filter(check => check.lastResponseTime !== null)
+        .map(check => ({
+          labels: { check: check.name },
+          value: (check.lastResponseTime ?? 0) / 1000,
+        })),
+    },
+    {
+      name: 'gist_geo_signups',
+      type: 'gauge',
+      help: 'Current number of signups.',
+      samples: [
+        { value: signupsBySource.reduce((sum, [, count]) => sum + count, 0) },
+      ],
+    },
+    {
+      name: 'gist_geo_signups_by_source',
+      type: 'gauge',
+      help: 'Current number of signups per source.',
+      samples: signupsBySource.map(([source, count]) => ({
+        labels: { source },
+        value: count,
+      })),
+    },
+    {
+      name: 'gist_geo_duplicate_signups',
+      type: 'counter',
+      help: 'Signup submissions for an address that was already on the list.',
+      samples: [{ value: metrics.duplicateSignups }],
+    },
+    {
+      name: 'gist_geo_rejected_signups',
+      type: 'counter',
+      help: 'Signup submissions blocked by abuse protection.',
+      samples: Object.entries(metrics.rejectedSignups).map(([reason, count]) => ({
+        labels: { reason },
+        value: count,
+      })),
+    },
+  ];
+
+  return new NextResponse(formatOpenMetrics(families), {
+    headers: {
+      'Content-Type': OPENMETRICS_CONTENT_TYPE,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
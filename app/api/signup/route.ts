@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchMutation } from 'convex/nextjs';
+import { ConvexError } from 'convex/values';
+import { api } from '@/convex/_generated/api';
+import type { SignupErrorData } from '@/convex/lib/errors';
+import { logger } from '@/convex/lib/logger';
+
+/**
+ * Signup Endpoint
+ *
+ * POST /api/signup
+ *
+ * The landing page's email form posts here rather than calling Convex, so
+ * signups can be rate-limited by the caller's IP, which a script can't
+ * choose the way it can a browser-generated ID. The IP is passed on to
+ * `signups:createSignup` together with SIGNUP_SECRET, which only this
+ * server holds.
+ *
+ * Body: the `createSignup` arguments other than `secret` and `clientIp`
+ *
+ * @returns The `createSignup` result (200), or `{ success: false, error }`
+ *   with a visitor-facing message: 400 for rejected input, 429 when rate
+ *   limited or too fast, 503 when signups are unavailable
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.SIGNUP_SECRET;
+  if (!secret) {
+    logger.error('signup.unavailable', { reason: 'signup_secret_not_configured' });
+    return unavailable();
+  }
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.email !== 'string') {
+    return rejected({ code: 'INVALID_EMAIL', message: 'Invalid email address.' });
+  }
+
+  try {
+    const result = await fetchMutation(api.signups.createSignup, {
+      secret,
+      clientIp: getClientIp(request),
+      email: body.email,
+      attribution: body.attribution,
+      firstTouch: body.firstTouch,
+      referralCode: body.referralCode,
+      honeypot: body.honeypot,
+      elapsedMs: body.elapsedMs,
+      snapshotDomain: body.snapshotDomain,
+    });
+    return NextResponse.json(result, { status: result.success ? 200 : 429 });
+  } catch (error) {
+    // Expected rejections carry a visitor-facing message
+    if (error instanceof ConvexError) {
+      return rejected(error.data as SignupErrorData);
+    }
+    logger.error('signup.failed', { error });
+    return unavailable();
+  }
+}
+
+/**
+ * The caller's IP as reported by the hosting proxy
+ *
+ * Vercel sets both headers itself, overwriting anything the client sent.
+ */
+function getClientIp(request: NextRequest): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return request.headers.get('x-real-ip') ?? (forwarded || undefined);
+}
+
+function rejected(error: SignupErrorData) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+function unavailable() {
+  return NextResponse.json(
+    { success: false, error: { message: 'Failed to save email. Please try again.' } },
+    { status: 503 }
+  );
+}
@@ -0,0 +1,25 @@
+import { PageShell } from "@/components/page-shell";
+import { ConfirmForm } from "@/components/confirm-form";
+
+/**
+ * Signup Confirmation Page
+ *
+ * GET /confirm/[token]
+ *
+ * Target of the link in the double opt-in email. Rendering it changes
+ * nothing; the visitor clicks a button that consumes the single-use token
+ * and flips the matching signup from `pending` to `confirmed`.
+ */
+export default async function ConfirmPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+
+  return (
+    <PageShell title="Confirm your email">
+      <ConfirmForm token={token} />
+    </PageShell>
+  );
+}
@@ -0,0 +1,23 @@
+import { PageShell } from "@/components/page-shell";
+import { LoginForm } from "@/components/login-form";
+
+/**
+ * Login Page
+ *
+ * GET /login?next=<path>
+ *
+ * Sign-in for internal routes such as /admin.
+ */
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  const { next } = await searchParams;
+
+  return (
+    <PageShell title="Sign in">
+      <LoginForm next={next} />
+    </PageShell>
+  );
+}
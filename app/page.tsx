@@ -1,21 +1,64 @@
 "use client";
 
+import * as React from "react";
 import Image from "next/image";
-import { useMutation } from "convex/react";
-import { api } from "@/convex/_generated/api";
-import { EmailSignupInput } from "@/components/email-signup-input";
+import type { FunctionReturnType } from "convex/server";
+import type { api } from "@/convex/_generated/api";
+import {
+  EmailSignupInput,
+  type EmailSubmissionMeta,
+} from "@/components/email-signup-input";
+import { GeoSnapshot } from "@/components/geo-snapshot";
+import { ReferralPanel } from "@/components/referral-panel";
+import { SignupProfileStep } from "@/components/signup-profile-step";
+import { captureAttribution, type SignupAttribution } from "@/lib/attribution";
+
+type SignupResult =
+  | FunctionReturnType<typeof api.signups.createSignup>
+  | { success: false; error: { message: string } };
 
 export default function Home() {
-  const createSignup = useMutation(api.signups.createSignup);
+  const attribution = React.useRef<SignupAttribution>({});
+  const [referralCode, setReferralCode] = React.useState<string | null>(null);
+  const [profileToken, setProfileToken] = React.useState<string | null>(null);
+  const [snapshotDomain, setSnapshotDomain] = React.useState<string | null>(null);
+  const [snapshotToken, setSnapshotToken] = React.useState<string | null>(null);
+
+  // Capture UTM params and referrer once per page load
+  React.useEffect(() => {
+    attribution.current = captureAttribution();
+  }, []);
 
-  const handleSubmit = async (email: string) => {
+  const handleSubmit = async (email: string, meta: EmailSubmissionMeta) => {
+    // Goes through /api/signup so the server can rate-limit by IP
+    let result: SignupResult;
     try {
-      await createSignup({ email });
-    } catch (error) {
-      throw new Error(
-        error instanceof Error ? error.message : "Failed to save email"
-      );
+      const response = await fetch("/api/signup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          email,
+          attribution: attribution.current.lastTouch,
+          firstTouch: attribution.current.firstTouch,
+          referralCode: attribution.current.referralCode,
+          honeypot: meta.honeypot,
+          elapsedMs: meta.elapsedMs,
+          snapshotDomain: snapshotDomain ?? undefined,
+        }),
+      });
+      result = await response.json();
+    } catch {
+      throw new Error("Failed to save email");
     }
+
+    // Rejected, rate-limited or flagged as automated; the message is
+    // written for visitors
+    if (!result.success) {
+      throw new Error(result.error.message);
+    }
+    setReferralCode(result.referralCode);
+    setProfileToken(result.profileToken);
+    setSnapshotToken(result.snapshotToken);
   };
 
   const handleSuccess = () => {
@@ -84,6 +127,17 @@ export default function Home() {
               responsive="mobile"
               className="md:w-[470px]"
             />
+            {profileToken && (
+              <SignupProfileStep
+                token={profileToken}
+                onDone={() => setProfileToken(null)}
+              />
+            )}
+            {referralCode && <ReferralPanel referralCode={referralCode} />}
+            <GeoSnapshot
+              unlockToken={snapshotToken}
+              onDomainChange={setSnapshotDomain}
+            />
           </div>
         </div>
 
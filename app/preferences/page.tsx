@@ -0,0 +1,31 @@
+import { PageShell } from "@/components/page-shell";
+import { PreferencesForm } from "@/components/preferences-form";
+
+/**
+ * Notification Preferences Page
+ *
+ * GET /preferences?token=<signed token>
+ *
+ * Linked from every email we send. Lets a subscriber pick which topics
+ * they hear about and how often.
+ */
+export default async function PreferencesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <PageShell title="Email preferences">
+      {token ? (
+        <PreferencesForm token={token} />
+      ) : (
+        <p className="text-[16px] font-medium leading-[22.40px] tracking-[0.16px] text-white/80 md:text-[20px] md:leading-[28px]">
+          This link is missing its token. Please use the link from your most
+          recent email.
+        </p>
+      )}
+    </PageShell>
+  );
+}
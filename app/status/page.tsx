@@ -0,0 +1,143 @@
+import type { Metadata } from "next";
+import { fetchQuery } from "convex/nextjs";
+import { api } from "@/convex/_generated/api";
+import { logger } from "@/convex/lib/logger";
+import { HISTORY_DAYS } from "@/convex/lib/uptime";
+import { PageShell } from "@/components/page-shell";
+import { UptimeBars } from "@/components/status/uptime-bars";
+import { HEALTH_CHECKS, TLS_CHECKS } from "@/lib/health-check-registry";
+import { formatDuration } from "@/lib/health-check";
+import { SIGNUP_FLOW_CHECK } from "@/lib/synthetic-signup";
+
+/**
+ * Public Status Page
+ *
+ * GET /status
+ *
+ * Current health, 90-day uptime per check and recent incidents, all read
+ * from what the health-check cron persists in Convex.
+ */
+
+// Always show the latest cron results
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Status | Gist GEO",
+};
+
+const textClass =
+  "text-[14px] tracking-[0.14px] text-white/80 md:text-[16px] md:tracking-[0.16px]";
+
+function checkLabel(name: string): string {
+  return (
+    [...HEALTH_CHECKS, ...TLS_CHECKS, SIGNUP_FLOW_CHECK].find(
+      (check) => check.name === name
+    )?.label ?? name
+  );
+}
+
+function formatTime(time: number): string {
+  return `${new Date(time).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "UTC",
+  })} UTC`;
+}
+
+export default async function StatusPage() {
+  let status;
+  try {
+    status = await fetchQuery(api.status.getStatusPage, {});
+  } catch (error) {
+    logger.error("status_page.load_failed", { error });
+    return (
+      <PageShell title="System status">
+        <p className={textClass}>
+          Status information is temporarily unavailable. Please check back in a
+          few minutes.
+        </p>
+      </PageShell>
+    );
+  }
+
+  const summary =
+    status.operational === null
+      ? "No checks have run yet"
+      : status.operational
+        ? "All systems operational"
+        : "Some systems are experiencing issues";
+
+  return (
+    <PageShell title="System status" className="max-w-[900px]">
+      {/* Current state */}
+      <div className="flex w-full items-center justify-center gap-3 rounded-[10px] bg-white/5 px-5 py-4 shadow-[0px_4px_16px_rgba(0,0,0,0.15)] backdrop-blur-lg">
+        <span
+          className={
+            status.operational === false
+              ? "h-3 w-3 rounded-full bg-[#FFC3D0]"
+              : "h-3 w-3 rounded-full bg-emerald-300"
+          }
+        />
+        <p className="text-[16px] font-medium tracking-[0.16px] text-white md:text-[20px] md:tracking-[0.20px]">
+          {summary}
+        </p>
+      </div>
+
+      {/* Uptime per check */}
+      <section className="flex w-full flex-col gap-6 text-left">
+        {status.checks.map((check) => (
+          <div key={check.name} className="flex flex-col gap-2">
+            <div className="flex items-baseline justify-between gap-4">
+              <span className="text-[16px] font-medium text-white">
+                {checkLabel(check.name)}
+              </span>
+              <span className={textClass}>
+                {check.operational === false ? "Down" : "Operational"}
+                {check.responseTime !== null && ` · ${check.responseTime}ms`}
+              </span>
+            </div>
+            <UptimeBars days={check.days} />
+            <div className="flex justify-between text-[12px] tracking-[0.12px] text-white/60">
+              <span>{HISTORY_DAYS} days ago</span>
+              <span>
+                {check.uptime === null ? "No data" : `${check.uptime}% uptime`}
+              </span>
+              <span>Today</span>
+            </div>
+          </div>
+        ))}
+      </section>
+
+      {/* Recent incidents */}
+      <section className="flex w-full flex-col gap-3 text-left">
+        <h2 className="text-[16px] font-medium tracking-[0.16px] text-white md:text-[20px] md:tracking-[0.20px]">
+          Recent incidents
+        </h2>
+        {status.incidents.length === 0 ? (
+          <p className={textClass}>No incidents reported.</p>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {status.incidents.map((incident) => (
+              <li
+                key={incident.id}
+                className="flex flex-col gap-1 rounded-[10px] bg-white/5 px-4 py-3 md:flex-row md:items-center md:justify-between"
+              >
+                <span className="text-[14px] text-white">
+                  {incident.status === "open" ? "Ongoing outage" : "Outage resolved"}
+                </span>
+                <span className="text-[12px] tracking-[0.12px] text-white/60 md:text-[14px]">
+                  {formatTime(incident.openedAt)}
+                  {incident.resolvedAt !== null &&
+                    ` · lasted ${formatDuration(incident.resolvedAt - incident.openedAt)}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </PageShell>
+  );
+}
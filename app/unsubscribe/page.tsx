@@ -0,0 +1,31 @@
+import { PageShell } from "@/components/page-shell";
+import { UnsubscribeForm } from "@/components/unsubscribe-form";
+
+/**
+ * Unsubscribe Page
+ *
+ * GET /unsubscribe?token=<signed token>
+ *
+ * Linked from every email we send. Lets a subscriber unsubscribe or erase
+ * their signup entirely (GDPR right to erasure).
+ */
+export default async function UnsubscribePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <PageShell title="Email preferences">
+      {token ? (
+        <UnsubscribeForm token={token} />
+      ) : (
+        <p className="text-[16px] font-medium leading-[22.40px] tracking-[0.16px] text-white/80 md:text-[20px] md:leading-[28px]">
+          This link is missing its token. Please use the link from your most
+          recent email.
+        </p>
+      )}
+    </PageShell>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useAuthActions } from "@convex-dev/auth/react";
+
+/**
+ * Signs the current user out and returns to the login page
+ */
+export function SignOutButton() {
+  const { signOut } = useAuthActions();
+  const router = useRouter();
+
+  return (
+    <button
+      type="button"
+      onClick={async () => {
+        await signOut();
+        router.push("/login");
+      }}
+      className="ml-auto text-[14px] text-white/60 hover:text-white"
+    >
+      Sign out
+    </button>
+  );
+}
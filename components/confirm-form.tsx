@@ -0,0 +1,110 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type ConfirmState = "idle" | "working" | "confirmed" | "expired" | "invalid" | "error";
+
+export interface ConfirmFormProps {
+  /** Single-use token from the emailed link */
+  token: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const messages = {
+  confirmed: {
+    title: "You're on the list!",
+    body: "Your email is confirmed. We'll let you know as soon as Gist GEO launches.",
+  },
+  expired: {
+    title: "This link has expired",
+    body: "Confirmation links are valid for 48 hours. Sign up again and we'll send you a fresh one.",
+  },
+  invalid: {
+    title: "This link is no longer valid",
+    body: "It may have already been used. If you haven't confirmed yet, sign up again to get a new link.",
+  },
+} as const;
+
+const textClass =
+  "text-[16px] font-medium leading-[22.40px] tracking-[0.16px] text-white/80 md:text-[20px] md:leading-[28px]";
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Confirmation action for the `/confirm/[token]` page.
+ *
+ * The single-use token is only consumed on an explicit click, so link
+ * scanners and prefetchers that open the emailed link can't confirm an
+ * address nobody clicked.
+ */
+export function ConfirmForm({ token }: ConfirmFormProps) {
+  const confirmSignup = useMutation(api.signups.confirmSignup);
+  const [state, setState] = React.useState<ConfirmState>("idle");
+
+  const handleConfirm = async () => {
+    setState("working");
+    try {
+      const result = await confirmSignup({ token });
+      setState(result.status);
+    } catch (error) {
+      console.error("Confirm error:", error);
+      setState("error");
+    }
+  };
+
+  if (state === "confirmed" || state === "expired" || state === "invalid") {
+    const { title, body } = messages[state];
+    return (
+      <div className="flex flex-col items-center gap-5">
+        <h2 className="text-[20px] font-medium tracking-[0.20px] text-white md:text-[24px]">
+          {title}
+        </h2>
+        <p className={textClass}>{body}</p>
+        <Link
+          href="/"
+          className="text-[14px] font-medium tracking-[0.14px] text-[#FFF5DC] underline underline-offset-4 md:text-[16px]"
+        >
+          Back to Gist GEO
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-5">
+      <p className={textClass}>
+        One last step: confirm that you want launch news from Gist GEO.
+      </p>
+
+      <Button
+        onClick={handleConfirm}
+        disabled={state === "working"}
+        className="rounded-full bg-white/10 text-[#FFF5DC] hover:bg-white/20"
+      >
+        Confirm my email
+      </Button>
+
+      {state === "error" && (
+        <span
+          className="text-[#640500] text-[14px] tracking-[0.14px]"
+          role="alert"
+        >
+          Something went wrong. Please try again in a moment.
+        </span>
+      )}
+    </div>
+  );
+}
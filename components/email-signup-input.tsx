@@ -4,6 +4,7 @@ import * as React from "react";
 import Image from "next/image";
 import { cva, type VariantProps } from "class-variance-authority";
 import { cn } from "@/lib/utils";
+import { isValidEmail, suggestEmail } from "@/convex/lib/email";
 
 // ============================================================================
 // Type Definitions
@@ -11,6 +12,15 @@ import { cn } from "@/lib/utils";
 
 type EmailInputState = "default" | "submitted" | "success" | "error";
 
+/** Bot-detection signals collected alongside the email */
+export interface EmailSubmissionMeta {
+  /** Value of the hidden honeypot field (empty for humans) */
+  honeypot: string;
+
+  /** Milliseconds between the form rendering and this submission */
+  elapsedMs: number;
+}
+
 // ============================================================================
 // CVA Variants
 // ============================================================================
@@ -86,7 +96,7 @@ export interface EmailSignupInputProps
     >,
     VariantProps<typeof containerVariants> {
   /** Callback for form submission (async for API integration) */
-  onSubmit?: (email: string) => Promise<void>;
+  onSubmit?: (email: string, meta: EmailSubmissionMeta) => Promise<void>;
 
   /** Success callback triggered after auto-reset */
   onSuccess?: () => void;
@@ -138,6 +148,8 @@ const EmailSignupInput = React.forwardRef<
       React.useState<EmailInputState>("default");
     const [email, setEmail] = React.useState("");
     const [error, setError] = React.useState("");
+    const [honeypot, setHoneypot] = React.useState("");
+    const renderedAt = React.useRef(Date.now());
 
     // Use controlled state if provided, otherwise internal
     const state = controlledState ?? internalState;
@@ -152,10 +164,17 @@ const EmailSignupInput = React.forwardRef<
     // Email Validation
     // ========================================================================
 
+    // Same rules as the server (convex/lib/email.ts)
     const isValidEmailFormat = (email: string): boolean => {
-      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+      return isValidEmail(email);
     };
 
+    // Likely typo of a popular provider ("gmial.con"), offered inline
+    const suggestion =
+      state !== "success" && isValidEmailFormat(email)
+        ? suggestEmail(email)
+        : null;
+
     // ========================================================================
     // Auto-reset Success State
     // ========================================================================
@@ -194,6 +213,12 @@ const EmailSignupInput = React.forwardRef<
       }
     };
 
+    const handleAcceptSuggestion = (suggested: string) => {
+      setEmail(suggested);
+      setError("");
+      setState("submitted");
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
 
@@ -209,7 +234,10 @@ const EmailSignupInput = React.forwardRef<
       // Call async onSubmit if provided
       if (onSubmit) {
         try {
-          await onSubmit(email);
+          await onSubmit(email.trim(), {
+            honeypot,
+            elapsedMs: Date.now() - renderedAt.current,
+          });
           setState("success");
           setError("");
         } catch (err) {
@@ -258,10 +286,21 @@ const EmailSignupInput = React.forwardRef<
             className
           )}
         >
+          {/* Honeypot: hidden from people and assistive tech, filled by bots */}
+          <input
+            type="text"
+            name="website"
+            value={honeypot}
+            onChange={(e) => setHoneypot(e.target.value)}
+            tabIndex={-1}
+            autoComplete="off"
+            aria-hidden="true"
+            className="absolute left-[-9999px] h-px w-px opacity-0"
+          />
           <input
             ref={ref}
             type="email"
-            value={state === "success" ? "Subscribed!" : email}
+            value={state === "success" ? "Check your inbox to confirm!" : email}
             onChange={handleChange}
             placeholder="Your Email"
             readOnly={state === "success"}
@@ -274,7 +313,7 @@ const EmailSignupInput = React.forwardRef<
             disabled={state === "success"}
             className={cn(buttonVariants({ state }))}
             aria-label={
-              state === "success" ? "Subscribed" : "Submit email"
+              state === "success" ? "Confirmation email sent" : "Submit email"
             }
           >
             <Image
@@ -286,6 +325,21 @@ const EmailSignupInput = React.forwardRef<
           </button>
         </form>
 
+        {/* Typo suggestion */}
+        {suggestion && (
+          <span className="text-white/80 text-[14px] tracking-[0.14px] font-[Inter]">
+            Did you mean{" "}
+            <button
+              type="button"
+              onClick={() => handleAcceptSuggestion(suggestion)}
+              className="font-medium text-[#FFF5DC] underline underline-offset-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white"
+            >
+              {suggestion}
+            </button>
+            ?
+          </span>
+        )}
+
         {/* Error message */}
         {state === "error" && error && (
           <span
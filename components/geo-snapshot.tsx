@@ -0,0 +1,184 @@
+"use client";
+
+import * as React from "react";
+import { useAction, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { AiEngine } from "@/convex/lib/profile";
+import type { SnapshotTeaser } from "@/convex/lib/snapshot";
+import { getClientId } from "@/lib/client-id";
+import { cn } from "@/lib/utils";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ENGINE_LABELS: Record<AiEngine, string> = {
+  chatgpt: "ChatGPT",
+  perplexity: "Perplexity",
+  claude: "Claude",
+  gemini: "Gemini",
+};
+
+const cardClass =
+  "flex w-[336px] flex-col gap-3 rounded-[10px] bg-white/5 px-5 py-4 text-left shadow-[0px_4px_16px_rgba(0,0,0,0.15)] backdrop-blur-lg md:w-[470px]";
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface GeoSnapshotProps {
+  /** `snapshotToken` returned by `createSignup`, once an email is submitted */
+  unlockToken: string | null;
+
+  /** Reports the domain currently previewed, so signup can unlock it */
+  onDomainChange?: (domain: string | null) => void;
+
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * "GEO snapshot" teaser: a sample visibility report for a brand's domain.
+ * The full report appears once the visitor signs up with the form above.
+ */
+export function GeoSnapshot({
+  unlockToken,
+  onDomainChange,
+  className,
+}: GeoSnapshotProps) {
+  const getSnapshotTeaser = useAction(api.snapshots.getSnapshotTeaser);
+  const [domain, setDomain] = React.useState("");
+  const [teaser, setTeaser] = React.useState<SnapshotTeaser | null>(null);
+  const [error, setError] = React.useState("");
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  const fullReport = useQuery(
+    api.snapshots.getFullSnapshot,
+    teaser && unlockToken ? { domain: teaser.domain, unlockToken } : "skip"
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError("");
+    try {
+      const result = await getSnapshotTeaser({
+        domain,
+        clientId: getClientId(),
+      });
+      if (result.status === "ok") {
+        setTeaser(result.teaser);
+        onDomainChange?.(result.teaser.domain);
+      } else {
+        setError(
+          result.status === "invalid_domain"
+            ? "Enter a domain like acme.com."
+            : "Too many previews right now. Please try again later."
+        );
+      }
+    } catch (error) {
+      console.error("Snapshot error:", error);
+      setError("Couldn't build your snapshot. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const prompts = fullReport?.prompts ?? teaser?.examplePrompts ?? [];
+
+  return (
+    <div className={cn(cardClass, className)}>
+      <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+        <label
+          htmlFor="snapshot-domain"
+          className="text-[14px] font-medium tracking-[0.14px] text-white md:text-[16px] md:tracking-[0.16px]"
+        >
+          Preview your brand&apos;s AI visibility
+        </label>
+        <div className="flex items-center gap-2 rounded-[10px] gradient-border-left-fade py-2 pl-4 pr-2">
+          <input
+            id="snapshot-domain"
+            type="text"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            placeholder="yourbrand.com"
+            className="flex-1 bg-transparent text-[14px] tracking-[0.01em] text-[#FFF5DC] placeholder:text-white/40 focus-visible:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || !domain.trim()}
+            className="rounded-full bg-white/10 px-3 py-1 text-[12px] font-medium text-[#FFF5DC] transition-all hover:bg-white/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white disabled:opacity-50"
+          >
+            {isLoading ? "Checking…" : "Preview"}
+          </button>
+        </div>
+        {error && (
+          <p className="text-[#640500] text-[14px] tracking-[0.14px]" role="alert">
+            {error}
+          </p>
+        )}
+      </form>
+
+      {teaser && (
+        <div className="flex flex-col gap-3 text-[14px] tracking-[0.14px] text-white/80">
+          <p>
+            <span className="text-white">{teaser.brand}</span> was mentioned in{" "}
+            <span className="geo-gradient-text">
+              {teaser.mentions} of {teaser.promptsSampled}
+            </span>{" "}
+            sampled AI answers.
+          </p>
+
+          {/* Share of voice vs. the closest competitor */}
+          <div className="flex flex-col gap-1">
+            <div className="flex justify-between text-[12px]">
+              <span>{teaser.brand} {teaser.shareOfVoice.brand}%</span>
+              <span>{teaser.competitor} {teaser.shareOfVoice.competitor}%</span>
+            </div>
+            <div className="flex h-2 overflow-hidden rounded-full bg-white/10">
+              <div
+                className="bg-[#FFC3D0]"
+                style={{ width: `${teaser.shareOfVoice.brand}%` }}
+              />
+            </div>
+          </div>
+
+          {fullReport && (
+            <ul className="flex flex-col gap-1 text-[12px]">
+              {fullReport.engines.map((engine) => (
+                <li key={engine.engine} className="flex justify-between">
+                  <span>{ENGINE_LABELS[engine.engine]}</span>
+                  <span>
+                    {engine.mentions} / {engine.promptsSampled} answers
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <ul className="flex flex-col gap-2">
+            {prompts.map((prompt) => (
+              <li key={prompt.prompt} className="rounded-[10px] bg-white/5 px-3 py-2">
+                <p className="text-white">&ldquo;{prompt.prompt}&rdquo;</p>
+                <p className="text-[12px] text-white/60">
+                  {ENGINE_LABELS[prompt.engine]} ·{" "}
+                  {prompt.brandMentioned ? "mentions you" : "doesn't mention you"}
+                </p>
+              </li>
+            ))}
+          </ul>
+
+          {!fullReport && teaser.lockedPrompts > 0 && (
+            <p className="text-[12px] text-white/60">
+              Enter your email above to unlock {teaser.lockedPrompts} more
+              prompts and a per-engine breakdown.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { useAuthActions } from "@convex-dev/auth/react";
+import { Button } from "@/components/ui/button";
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface LoginFormProps {
+  /** Path to continue to after signing in */
+  next?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve `next` against this origin and keep it only if it stays here,
+ * so the login page can't be used as an open redirect
+ */
+function safeNextPath(next: string): string {
+  try {
+    const url = new URL(next, window.location.origin);
+    if (url.origin === window.location.origin) {
+      return `${url.pathname}${url.search}${url.hash}`;
+    }
+  } catch {
+    // Unparseable; fall through to the default
+  }
+  return "/admin";
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Email + password sign-in for internal users (Convex Auth Password
+ * provider). There is no sign-up: accounts are created from the Convex CLI
+ * (`users:createUser`) and have no access until an admin role is granted.
+ */
+export function LoginForm({ next = "/admin" }: LoginFormProps) {
+  const { signIn } = useAuthActions();
+  const router = useRouter();
+  const [error, setError] = React.useState("");
+  const [submitting, setSubmitting] = React.useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError("");
+
+    const formData = new FormData(e.currentTarget);
+    formData.set("flow", "signIn");
+
+    try {
+      await signIn("password", formData);
+      router.push(safeNextPath(next));
+    } catch (err) {
+      console.error("Sign in error:", err);
+      setError("Invalid email or password.");
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    "rounded-[10px] bg-white/5 px-4 py-2.5 text-[14px] text-[#FFF5DC] placeholder:text-[#FFF5DC]/60 shadow-[0px_4px_16px_rgba(0,0,0,0.15)] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white/40 md:text-[16px]";
+
+  return (
+    <form onSubmit={handleSubmit} className="flex w-[336px] flex-col gap-3 md:w-[400px]">
+      <input name="email" type="email" placeholder="Email" autoComplete="email" required className={inputClass} />
+      <input
+        name="password"
+        type="password"
+        placeholder="Password"
+        autoComplete="current-password"
+        required
+        className={inputClass}
+      />
+      <Button
+        type="submit"
+        disabled={submitting}
+        className="rounded-full bg-white/10 text-[#FFF5DC] hover:bg-white/20"
+      >
+        Sign in
+      </Button>
+      {error && (
+        <span className="text-[#640500] text-[14px] tracking-[0.14px]" role="alert">
+          {error}
+        </span>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,64 @@
+import * as React from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface PageShellProps {
+  /** Heading shown under the Gist GEO wordmark */
+  title: string;
+
+  /** Page body */
+  children?: React.ReactNode;
+
+  /** Extra classes for the content column */
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Layout for secondary pages (confirmation, unsubscribe, ...) that mirrors
+ * the landing page: full-bleed background, wordmark and centered content.
+ */
+export function PageShell({ title, children, className }: PageShellProps) {
+  return (
+    <main className="relative min-h-screen overflow-hidden px-4 py-20 md:px-20">
+      {/* Background Image */}
+      <div className="fixed inset-0 -z-10">
+        <Image
+          src="/background.png"
+          alt=""
+          fill
+          className="object-cover"
+          priority
+        />
+      </div>
+
+      <div
+        className={cn(
+          "mx-auto flex min-h-[calc(100vh-160px)] max-w-[652px] flex-col items-center justify-center gap-8 text-center",
+          className
+        )}
+      >
+        {/* Gist GEO wordmark */}
+        <Link href="/" className="text-[36px] font-bold leading-[42.48px] md:text-[48px] md:leading-[56.64px]">
+          <span className="text-white/60">Gist</span>
+          <span className="text-[#FEFFCE]"> </span>
+          <span className="geo-gradient-text">GEO</span>
+        </Link>
+
+        <h1 className="text-[20px] font-medium tracking-[0.20px] text-white md:text-[28px] md:tracking-[0.28px]">
+          {title}
+        </h1>
+
+        {children}
+      </div>
+    </main>
+  );
+}
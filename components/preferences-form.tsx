@@ -0,0 +1,177 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Frequency, Topic } from "@/convex/lib/preferences";
+import { Button } from "@/components/ui/button";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TOPICS: Array<{ id: Topic; label: string; description: string }> = [
+  {
+    id: "launch",
+    label: "Launch announcement",
+    description: "One email when Gist GEO opens its doors.",
+  },
+  {
+    id: "productUpdates",
+    label: "Product updates",
+    description: "New features and improvements.",
+  },
+  {
+    id: "research",
+    label: "GEO research reports",
+    description: "What we learn about brand visibility in AI answers.",
+  },
+];
+
+const FREQUENCIES: Array<{ id: Frequency; label: string }> = [
+  { id: "immediate", label: "As it happens" },
+  { id: "weekly", label: "Weekly digest" },
+  { id: "monthly", label: "Monthly digest" },
+];
+
+const textClass =
+  "text-[16px] font-medium leading-[22.40px] tracking-[0.16px] text-white/80";
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export interface PreferencesFormProps {
+  /** Signed token from the emailed link */
+  token: string;
+}
+
+/**
+ * Topic and frequency choices for the `/preferences` page
+ */
+export function PreferencesForm({ token }: PreferencesFormProps) {
+  const preferences = useQuery(api.preferences.getMyPreferences, { token });
+  const updatePreferences = useMutation(api.preferences.updateMyPreferences);
+
+  const [topics, setTopics] = React.useState<Record<Topic, boolean> | null>(null);
+  const [frequency, setFrequency] = React.useState<Frequency>("immediate");
+  const [saveState, setSaveState] = React.useState<"idle" | "saving" | "saved" | "error">("idle");
+
+  // Seed the form once the saved preferences load
+  React.useEffect(() => {
+    if (preferences && topics === null) {
+      setTopics(preferences.topics);
+      setFrequency(preferences.frequency);
+    }
+  }, [preferences, topics]);
+
+  if (preferences === undefined) {
+    return <p className={textClass}>Loading…</p>;
+  }
+
+  if (preferences === null || topics === null) {
+    return (
+      <p className={textClass}>
+        This link is invalid. Please use the link from your most recent email.
+      </p>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaveState("saving");
+    try {
+      const result = await updatePreferences({ token, topics, frequency });
+      setSaveState(result.status === "saved" ? "saved" : "error");
+    } catch (error) {
+      console.error("Preferences error:", error);
+      setSaveState("error");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex w-[336px] flex-col gap-5 text-left md:w-[470px]">
+      <p className={textClass}>
+        Choose what <span className="text-[#FFF5DC]">{preferences.email}</span> hears about.
+      </p>
+
+      {preferences.unsubscribed && (
+        <p className="text-[14px] tracking-[0.14px] text-white/60">
+          You&apos;re currently unsubscribed, so we won&apos;t email you.
+        </p>
+      )}
+
+      <fieldset className="flex flex-col gap-3">
+        <legend className="mb-2 text-[14px] font-medium uppercase tracking-[0.14px] text-white/60">
+          Topics
+        </legend>
+        {TOPICS.map((topic) => (
+          <label key={topic.id} className="flex cursor-pointer items-start gap-3">
+            <input
+              type="checkbox"
+              checked={topics[topic.id]}
+              onChange={(e) => {
+                setTopics({ ...topics, [topic.id]: e.target.checked });
+                setSaveState("idle");
+              }}
+              className="mt-1 h-4 w-4 accent-[#FFC3D0]"
+            />
+            <span className="flex flex-col">
+              <span className="text-[16px] text-white">{topic.label}</span>
+              <span className="text-[14px] text-white/60">{topic.description}</span>
+            </span>
+          </label>
+        ))}
+      </fieldset>
+
+      <fieldset className="flex flex-col gap-3">
+        <legend className="mb-2 text-[14px] font-medium uppercase tracking-[0.14px] text-white/60">
+          Frequency
+        </legend>
+        {FREQUENCIES.map((option) => (
+          <label key={option.id} className="flex cursor-pointer items-center gap-3 text-[16px] text-white">
+            <input
+              type="radio"
+              name="frequency"
+              checked={frequency === option.id}
+              onChange={() => {
+                setFrequency(option.id);
+                setSaveState("idle");
+              }}
+              className="h-4 w-4 accent-[#FFC3D0]"
+            />
+            {option.label}
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="flex items-center gap-4">
+        <Button
+          type="submit"
+          disabled={saveState === "saving"}
+          className="rounded-full bg-white/10 text-[#FFF5DC] hover:bg-white/20"
+        >
+          Save preferences
+        </Button>
+        {saveState === "saved" && (
+          <span className="text-[14px] text-white/80" role="status">
+            Saved.
+          </span>
+        )}
+        {saveState === "error" && (
+          <span className="text-[#640500] text-[14px] tracking-[0.14px]" role="alert">
+            Couldn&apos;t save. Please try again.
+          </span>
+        )}
+      </div>
+
+      <Link
+        href={`/unsubscribe?token=${encodeURIComponent(token)}`}
+        className="text-[14px] text-white/60 underline-offset-4 hover:underline"
+      >
+        Unsubscribe from everything or delete your data
+      </Link>
+    </form>
+  );
+}
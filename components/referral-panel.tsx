@@ -0,0 +1,98 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { buildShareUrl } from "@/lib/attribution";
+import { cn } from "@/lib/utils";
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface ReferralPanelProps {
+  /** The subscriber's own share code returned by `createSignup` */
+  referralCode: string;
+
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Post-signup panel showing the subscriber's waitlist position and a
+ * personal share link. Position updates live as referrals confirm.
+ */
+export function ReferralPanel({ referralCode, className }: ReferralPanelProps) {
+  const waitlist = useQuery(api.waitlist.getWaitlistPosition, { referralCode });
+  const [copied, setCopied] = React.useState(false);
+  const [shareUrl, setShareUrl] = React.useState("");
+
+  // window is only available after mount
+  React.useEffect(() => {
+    setShareUrl(buildShareUrl(referralCode));
+  }, [referralCode]);
+
+  React.useEffect(() => {
+    if (copied) {
+      const timer = setTimeout(() => setCopied(false), 2000);
+      return () => clearTimeout(timer);
+    }
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+    } catch (error) {
+      console.error("Clipboard error:", error);
+    }
+  };
+
+  if (!waitlist) {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn(
+        "flex w-[336px] flex-col items-center gap-3 rounded-[10px] bg-white/5 px-5 py-4 text-center shadow-[0px_4px_16px_rgba(0,0,0,0.15)] backdrop-blur-lg md:w-[470px]",
+        className
+      )}
+    >
+      {waitlist.position !== null && (
+        <p className="text-[16px] font-medium tracking-[0.16px] text-white md:text-[20px] md:tracking-[0.20px]">
+          You&apos;re <span className="geo-gradient-text">#{waitlist.position.toLocaleString()}</span>{" "}
+          of {waitlist.total.toLocaleString()} on the waitlist
+        </p>
+      )}
+
+      <p className="text-[14px] tracking-[0.14px] text-white/80">
+        Move up {waitlist.placesPerReferral} spots for every friend who
+        confirms their signup
+        {waitlist.confirmedReferrals > 0 &&
+          ` (${waitlist.confirmedReferrals} so far)`}
+        .
+      </p>
+
+      <div className="flex w-full items-center gap-2 rounded-[10px] gradient-border-left-fade py-2 pl-4 pr-2">
+        <input
+          readOnly
+          value={shareUrl}
+          aria-label="Your share link"
+          className="flex-1 truncate bg-transparent text-[14px] tracking-[0.01em] text-[#FFF5DC] focus-visible:outline-none"
+          onFocus={(e) => e.target.select()}
+        />
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="rounded-full bg-white/10 px-3 py-1 text-[12px] font-medium text-[#FFF5DC] transition-all hover:bg-white/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white"
+        >
+          {copied ? "Copied!" : "Copy"}
+        </button>
+      </div>
+    </div>
+  );
+}
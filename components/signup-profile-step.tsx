@@ -0,0 +1,157 @@
+"use client";
+
+import * as React from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { AiEngine } from "@/convex/lib/profile";
+import { cn } from "@/lib/utils";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Same engines as the landing page tagline
+const AI_ENGINES: Array<{ id: AiEngine; label: string }> = [
+  { id: "chatgpt", label: "ChatGPT" },
+  { id: "perplexity", label: "Perplexity" },
+  { id: "claude", label: "Claude" },
+  { id: "gemini", label: "Gemini" },
+];
+
+const inputClass =
+  "w-full rounded-[10px] bg-white/5 px-4 py-2 text-[14px] tracking-[0.14px] text-[#FFF5DC] placeholder:text-white/40 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white";
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface SignupProfileStepProps {
+  /** `profileToken` returned by `createSignup` */
+  token: string;
+
+  /** Called once the step is saved or skipped */
+  onDone?: () => void;
+
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Optional post-signup questions. The signup is already saved, so
+ * skipping (or a failed save) simply closes the step.
+ */
+export function SignupProfileStep({
+  token,
+  onDone,
+  className,
+}: SignupProfileStepProps) {
+  const updateSignupProfile = useMutation(api.signups.updateSignupProfile);
+  const [companyDomain, setCompanyDomain] = React.useState("");
+  const [role, setRole] = React.useState("");
+  const [aiEngines, setAiEngines] = React.useState<AiEngine[]>([]);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const toggleEngine = (engine: AiEngine) => {
+    setAiEngines((current) =>
+      current.includes(engine)
+        ? current.filter((e) => e !== engine)
+        : [...current, engine]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await updateSignupProfile({
+        token,
+        companyDomain: companyDomain || undefined,
+        role: role || undefined,
+        aiEngines,
+      });
+    } catch (error) {
+      console.error("Profile error:", error);
+    } finally {
+      setIsSaving(false);
+      onDone?.();
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className={cn(
+        "flex w-[336px] flex-col gap-3 rounded-[10px] bg-white/5 px-5 py-4 text-left shadow-[0px_4px_16px_rgba(0,0,0,0.15)] backdrop-blur-lg md:w-[470px]",
+        className
+      )}
+    >
+      <p className="text-[14px] font-medium tracking-[0.14px] text-white md:text-[16px] md:tracking-[0.16px]">
+        Help us tailor your early access <span className="text-white/60">(optional)</span>
+      </p>
+
+      <input
+        type="text"
+        value={companyDomain}
+        onChange={(e) => setCompanyDomain(e.target.value)}
+        placeholder="Company domain (e.g. acme.com)"
+        aria-label="Company domain"
+        autoComplete="url"
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={role}
+        onChange={(e) => setRole(e.target.value)}
+        placeholder="Your role (e.g. Head of SEO)"
+        aria-label="Role"
+        autoComplete="organization-title"
+        className={inputClass}
+      />
+
+      <fieldset className="flex flex-wrap gap-2">
+        <legend className="mb-2 text-[14px] tracking-[0.14px] text-white/80">
+          Which AI engines matter most to you?
+        </legend>
+        {AI_ENGINES.map((engine) => {
+          const selected = aiEngines.includes(engine.id);
+          return (
+            <button
+              key={engine.id}
+              type="button"
+              aria-pressed={selected}
+              onClick={() => toggleEngine(engine.id)}
+              className={cn(
+                "rounded-full px-3 py-1 text-[12px] font-medium transition-all focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white",
+                selected
+                  ? "bg-[#FFF5DC] text-black"
+                  : "bg-white/10 text-[#FFF5DC] hover:bg-white/20"
+              )}
+            >
+              {engine.label}
+            </button>
+          );
+        })}
+      </fieldset>
+
+      <div className="flex items-center justify-end gap-3">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-3 py-1 text-[12px] font-medium text-white/60 hover:text-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white"
+        >
+          Skip
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="rounded-full bg-white/10 px-3 py-1 text-[12px] font-medium text-[#FFF5DC] transition-all hover:bg-white/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white disabled:opacity-50"
+        >
+          {isSaving ? "Saving…" : "Save"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,40 @@
+import { cn } from "@/lib/utils";
+
+// ============================================================================
+// Props Interface
+// ============================================================================
+
+export interface UptimeBarsProps {
+  /** One entry per day, oldest first; null uptime means no data that day */
+  days: Array<{ day: string; uptime: number | null }>;
+
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+function barColor(uptime: number | null): string {
+  if (uptime === null) return "bg-white/10";
+  if (uptime >= 99.9) return "bg-emerald-300";
+  if (uptime >= 95) return "bg-amber-300";
+  return "bg-[#FFC3D0]";
+}
+
+/**
+ * Row of daily uptime bars for one check, as on the `/status` page
+ */
+export function UptimeBars({ days, className }: UptimeBarsProps) {
+  return (
+    <div className={cn("flex h-8 items-stretch gap-[2px]", className)}>
+      {days.map(({ day, uptime }) => (
+        <div
+          key={day}
+          title={`${day}: ${uptime === null ? "No data" : `${uptime}% uptime`}`}
+          className={cn("flex-1 rounded-[2px]", barColor(uptime))}
+        />
+      ))}
+    </div>
+  );
+}
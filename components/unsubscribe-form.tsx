@@ -0,0 +1,100 @@
+"use client";
+
+import * as React from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Button } from "@/components/ui/button";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type UnsubscribeState =
+  | "idle"
+  | "working"
+  | "unsubscribed"
+  | "erased"
+  | "invalid"
+  | "error";
+
+export interface UnsubscribeFormProps {
+  /** Signed token from the emailed link */
+  token: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Unsubscribe / erase actions for the `/unsubscribe` page.
+ *
+ * Actions require an explicit click rather than firing on page load so
+ * that link scanners in mail clients can't unsubscribe anyone.
+ */
+export function UnsubscribeForm({ token }: UnsubscribeFormProps) {
+  const unsubscribe = useMutation(api.signups.unsubscribe);
+  const eraseSignup = useMutation(api.signups.eraseSignup);
+  const [state, setState] = React.useState<UnsubscribeState>("idle");
+
+  const run = async (action: typeof unsubscribe | typeof eraseSignup) => {
+    setState("working");
+    try {
+      const result = await action({ token });
+      setState(result.status);
+    } catch (error) {
+      console.error("Unsubscribe error:", error);
+      setState("error");
+    }
+  };
+
+  const message = {
+    unsubscribed: "You've been unsubscribed. You won't hear from us again.",
+    erased: "Your data has been deleted. We've kept no copy of your email address.",
+    invalid: "This link is invalid. Please use the link from your most recent email.",
+    error: "Something went wrong. Please try again in a moment.",
+  };
+
+  if (state !== "idle" && state !== "working" && state !== "error") {
+    return (
+      <p className="text-[16px] font-medium leading-[22.40px] tracking-[0.16px] text-white/80 md:text-[20px] md:leading-[28px]">
+        {message[state]}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-5">
+      <p className="text-[16px] font-medium leading-[22.40px] tracking-[0.16px] text-white/80 md:text-[20px] md:leading-[28px]">
+        Stop receiving Gist GEO emails, or permanently delete everything we
+        store about you.
+      </p>
+
+      <div className="flex flex-col gap-3 md:flex-row">
+        <Button
+          onClick={() => run(unsubscribe)}
+          disabled={state === "working"}
+          className="rounded-full bg-white/10 text-[#FFF5DC] hover:bg-white/20"
+        >
+          Unsubscribe
+        </Button>
+        <Button
+          onClick={() => run(eraseSignup)}
+          disabled={state === "working"}
+          className="rounded-full bg-transparent text-white/60 underline-offset-4 hover:bg-transparent hover:underline"
+        >
+          Delete my data
+        </Button>
+      </div>
+
+      {state === "error" && (
+        <span
+          className="text-[#640500] text-[14px] tracking-[0.14px]"
+          role="alert"
+        >
+          {message.error}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,42 @@
  * @module
  */
 
+import type * as auth from "../auth.js";
+import type * as certificates from "../certificates.js";
+import type * as cronRuns from "../cronRuns.js";
+import type * as emails from "../emails.js";
+import type * as health from "../health.js";
+import type * as http from "../http.js";
+import type * as incidents from "../incidents.js";
+import type * as lib_admin from "../lib/admin.js";
+import type * as lib_attribution from "../lib/attribution.js";
+import type * as lib_certificates from "../lib/certificates.js";
+import type * as lib_counters from "../lib/counters.js";
+import type * as lib_disposable from "../lib/disposable.js";
+import type * as lib_email from "../lib/email.js";
+import type * as lib_errors from "../lib/errors.js";
+import type * as lib_incidents from "../lib/incidents.js";
+import type * as lib_links from "../lib/links.js";
+import type * as lib_logger from "../lib/logger.js";
+import type * as lib_mail from "../lib/mail.js";
+import type * as lib_monitor from "../lib/monitor.js";
+import type * as lib_preferences from "../lib/preferences.js";
+import type * as lib_profile from "../lib/profile.js";
+import type * as lib_rateLimit from "../lib/rateLimit.js";
+import type * as lib_snapshot from "../lib/snapshot.js";
+import type * as lib_tokens from "../lib/tokens.js";
+import type * as lib_uptime from "../lib/uptime.js";
+import type * as lib_waitlist from "../lib/waitlist.js";
+import type * as metrics from "../metrics.js";
+import type * as migrations from "../migrations.js";
+import type * as notifications from "../notifications.js";
+import type * as preferences from "../preferences.js";
+import type * as rateLimits from "../rateLimits.js";
 import type * as signups from "../signups.js";
+import type * as snapshots from "../snapshots.js";
+import type * as status from "../status.js";
+import type * as users from "../users.js";
+import type * as waitlist from "../waitlist.js";
 
 import type {
   ApiFromModules,
@@ -25,7 +60,42 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  auth: typeof auth;
+  certificates: typeof certificates;
+  cronRuns: typeof cronRuns;
+  emails: typeof emails;
+  health: typeof health;
+  http: typeof http;
+  incidents: typeof incidents;
+  "lib/admin": typeof lib_admin;
+  "lib/attribution": typeof lib_attribution;
+  "lib/certificates": typeof lib_certificates;
+  "lib/counters": typeof lib_counters;
+  "lib/disposable": typeof lib_disposable;
+  "lib/email": typeof lib_email;
+  "lib/errors": typeof lib_errors;
+  "lib/incidents": typeof lib_incidents;
+  "lib/links": typeof lib_links;
+  "lib/logger": typeof lib_logger;
+  "lib/mail": typeof lib_mail;
+  "lib/monitor": typeof lib_monitor;
+  "lib/preferences": typeof lib_preferences;
+  "lib/profile": typeof lib_profile;
+  "lib/rateLimit": typeof lib_rateLimit;
+  "lib/snapshot": typeof lib_snapshot;
+  "lib/tokens": typeof lib_tokens;
+  "lib/uptime": typeof lib_uptime;
+  "lib/waitlist": typeof lib_waitlist;
+  metrics: typeof metrics;
+  migrations: typeof migrations;
+  notifications: typeof notifications;
+  preferences: typeof preferences;
+  rateLimits: typeof rateLimits;
   signups: typeof signups;
+  snapshots: typeof snapshots;
+  status: typeof status;
+  users: typeof users;
+  waitlist: typeof waitlist;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
 
@@ -0,0 +1,25 @@
+import { convexAuth } from "@convex-dev/auth/server";
+import { Password } from "@convex-dev/auth/providers/Password";
+import { ConvexError } from "convex/values";
+
+/**
+ * Convex Auth configuration.
+ *
+ * Internal users sign in with email + password; the provider needs no
+ * external service, so it works the same against a local deployment.
+ * Public sign-up is disabled: accounts are created from the CLI with
+ * `users:createUser` and carry no privileges until granted a role (see
+ * users.ts).
+ */
+export const { auth, signIn, signOut, store, isAuthenticated } = convexAuth({
+  providers: [
+    Password({
+      profile(params) {
+        if (params.flow === "signUp") {
+          throw new ConvexError("Sign-up is disabled");
+        }
+        return { email: params.email as string };
+      },
+    }),
+  ],
+});
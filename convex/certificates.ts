@@ -0,0 +1,64 @@
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getCertificateNotice } from "./lib/certificates";
+import { createLogger } from "./lib/logger";
+import { requireMonitorSecret } from "./lib/monitor";
+
+/**
+ * TLS certificate expiry warnings for the health-check cron.
+ *
+ * The cron checks certificates every run; lib/certificates.ts decides when
+ * a warning is announced and when an open one is resolved by a renewal.
+ */
+
+/**
+ * Report the certificate a TLS check received and learn what to announce
+ *
+ * The decision and the bookkeeping happen in one mutation, so overlapping
+ * runs can't both announce the same threshold or renewal.
+ */
+export const recordCertificateCheck = mutation({
+  args: {
+    secret: v.string(),
+    host: v.string(),
+    validTo: v.number(),
+    // Smallest warning threshold reached, or null outside all of them
+    threshold: v.union(v.number(), v.null()),
+    // Correlates these log lines with the cron run that reported
+    runId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    requireMonitorSecret(args.secret);
+    const log = createLogger({ runId: args.runId });
+
+    const previous = await ctx.db
+      .query("certificateWarnings")
+      .withIndex("by_host", (q) => q.eq("host", args.host))
+      .first();
+
+    const notify = getCertificateNotice(previous, args.validTo, args.threshold);
+
+    if (notify === "renewed" && previous) {
+      await ctx.db.delete(previous._id);
+      log.info("certificate.renewed", { host: args.host });
+    } else if (notify === "warning" && args.threshold !== null) {
+      const warning = {
+        host: args.host,
+        validTo: args.validTo,
+        threshold: args.threshold,
+        notifiedAt: Date.now(),
+      };
+      if (previous) {
+        await ctx.db.patch(previous._id, warning);
+      } else {
+        await ctx.db.insert("certificateWarnings", warning);
+      }
+      log.warn("certificate.warning_recorded", {
+        host: args.host,
+        threshold: args.threshold,
+      });
+    }
+
+    return { notify };
+  },
+});
@@ -0,0 +1,65 @@
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { cronRunCheckValidator, cronRunNoticeValidator } from "./schema";
+import { createLogger } from "./lib/logger";
+import { requireMonitorSecret } from "./lib/monitor";
+import { DAY_MS, PRUNE_BATCH_SIZE, RAW_RETENTION_DAYS } from "./lib/uptime";
+
+/**
+ * Run history for the health-check cron.
+ *
+ * Every completed run is recorded, whatever its checks found, so a missing
+ * recent row means the scheduler stopped firing (or the run died before
+ * finishing). `health:ping` exposes the latest successful run to
+ * `/api/health`, which reports degraded once it goes stale.
+ */
+
+/**
+ * Record one completed cron run
+ *
+ * Also prunes a batch of runs older than the retention window.
+ */
+export const recordCronRun = mutation({
+  args: {
+    secret: v.string(),
+    runId: v.string(),
+    startedAt: v.number(),
+    durationMs: v.number(),
+    success: v.boolean(),
+    results: v.array(cronRunCheckValidator),
+    notice: cronRunNoticeValidator,
+    alertsSent: v.array(v.string()),
+    alertsFailed: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    requireMonitorSecret(args.secret);
+    const log = createLogger({ runId: args.runId });
+
+    await ctx.db.insert("cronRuns", {
+      runId: args.runId,
+      startedAt: args.startedAt,
+      durationMs: args.durationMs,
+      success: args.success,
+      results: args.results,
+      notice: args.notice,
+      alertsSent: args.alertsSent,
+      alertsFailed: args.alertsFailed,
+    });
+
+    const expired = await ctx.db
+      .query("cronRuns")
+      .withIndex("by_started_at", (q) =>
+        q.lt("startedAt", args.startedAt - RAW_RETENTION_DAYS * DAY_MS)
+      )
+      .take(PRUNE_BATCH_SIZE);
+    for (const row of expired) {
+      await ctx.db.delete(row._id);
+    }
+
+    log.info("cron_run.recorded", {
+      success: args.success,
+      notice: args.notice,
+      pruned: expired.length,
+    });
+  },
+});
@@ -0,0 +1,35 @@
+import { internalAction } from "./_generated/server";
+import { v } from "convex/values";
+import { buildSignupLinkUrl } from "./lib/links";
+import { getMailSender, getSiteUrl } from "./lib/mail";
+
+export const sendConfirmationEmail = internalAction({
+  args: { signupId: v.id("signups"), email: v.string(), token: v.string() },
+  handler: async (_ctx, args) => {
+    const confirmUrl = `${getSiteUrl()}/confirm/${args.token}`;
+    const preferencesUrl = await buildSignupLinkUrl("/preferences", args.signupId);
+    const unsubscribeUrl = await buildSignupLinkUrl("/unsubscribe", args.signupId);
+
+    await getMailSender().send({
+      to: args.email,
+      subject: "Confirm your Gist GEO signup",
+      text: [
+        "Thanks for signing up for Gist GEO launch updates!",
+        "",
+        "Please confirm your email address by opening the link below:",
+        confirmUrl,
+        "",
+        "If you didn't sign up, you can ignore this email.",
+        "",
+        `Choose what you hear about: ${preferencesUrl}`,
+        `Unsubscribe or delete your data: ${unsubscribeUrl}`,
+      ].join("\n"),
+      html: [
+        "<p>Thanks for signing up for Gist GEO launch updates!</p>",
+        `<p><a href="${confirmUrl}">Confirm your email address</a></p>`,
+        "<p>If you didn't sign up, you can ignore this email.</p>",
+        `<p><a href="${preferencesUrl}">Email preferences</a> · <a href="${unsubscribeUrl}">Unsubscribe or delete your data</a></p>`,
+      ].join(""),
+    });
+  },
+});
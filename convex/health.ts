@@ -0,0 +1,27 @@
+import { query } from "./_generated/server";
+
+/**
+ * Lightweight liveness probe for `/api/health`
+ *
+ * Touches the database with a single indexed read so a healthy answer
+ * means queries are actually being served, not just that the URL is set.
+ * That read is the latest successful cron run, so the same round trip
+ * tells `/api/health` whether the monitoring cron is still doing its job;
+ * runs that keep failing don't count.
+ */
+export const ping = query({
+  args: {},
+  handler: async (ctx) => {
+    const lastRun = await ctx.db
+      .query("cronRuns")
+      .withIndex("by_success_started_at", (q) => q.eq("success", true))
+      .order("desc")
+      .first();
+
+    return {
+      ok: true as const,
+      // When the last successful run finished (epoch milliseconds)
+      lastCronRunAt: lastRun ? lastRun.startedAt + lastRun.durationMs : null,
+    };
+  },
+});
@@ -0,0 +1,9 @@
+import { httpRouter } from "convex/server";
+import { auth } from "./auth";
+
+const http = httpRouter();
+
+// Sign-in, token refresh and JWKS endpoints used by Convex Auth
+auth.addHttpRoutes(http);
+
+export default http;
@@ -0,0 +1,93 @@
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { getIncidentTransition } from "./lib/incidents";
+import { createLogger } from "./lib/logger";
+import { requireMonitorSecret } from "./lib/monitor";
+
+/**
+ * Incident state for the health-check cron.
+ *
+ * Each cron run reports whether its checks passed. The first failing run
+ * opens an incident and should alert; further failing runs stay quiet
+ * until the re-notify interval has passed; the first passing run resolves
+ * the incident so a recovery notice can be posted.
+ *
+ * The decision and the `lastNotifiedAt` bump happen in one mutation, so
+ * overlapping runs can't both decide to alert.
+ */
+
+export const recordCheckRun = mutation({
+  args: {
+    secret: v.string(),
+    healthy: v.boolean(),
+    failedUrls: v.array(v.string()),
+    // Minimum time between "still failing" reminders
+    renotifyIntervalMs: v.number(),
+    // Correlates these log lines with the cron run that reported
+    runId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    requireMonitorSecret(args.secret);
+    const log = createLogger({ runId: args.runId });
+
+    const now = Date.now();
+    const open = await ctx.db
+      .query("incidents")
+      .withIndex("by_status", (q) => q.eq("status", "open"))
+      .first();
+
+    const transition = getIncidentTransition(
+      open,
+      args.healthy,
+      now,
+      args.renotifyIntervalMs
+    );
+
+    switch (transition.action) {
+      case "none":
+        return { notify: "none" as const };
+
+      case "resolve": {
+        const { incident } = transition;
+        await ctx.db.patch(incident._id, { status: "resolved", resolvedAt: now });
+        log.info("incident.resolved", {
+          incidentId: incident._id,
+          durationMs: now - incident.openedAt,
+        });
+        return {
+          notify: "recovered" as const,
+          openedAt: incident.openedAt,
+          resolvedAt: now,
+        };
+      }
+
+      case "open": {
+        const incidentId = await ctx.db.insert("incidents", {
+          status: "open",
+          openedAt: now,
+          lastNotifiedAt: now,
+          failedUrls: args.failedUrls,
+        });
+        log.warn("incident.opened", { incidentId, failedUrls: args.failedUrls });
+        return { notify: "opened" as const, openedAt: now };
+      }
+
+      case "update": {
+        const { incident, renotify } = transition;
+        await ctx.db.patch(incident._id, {
+          failedUrls: args.failedUrls,
+          ...(renotify ? { lastNotifiedAt: now } : {}),
+        });
+        log.info("incident.updated", {
+          incidentId: incident._id,
+          failedUrls: args.failedUrls,
+          renotify,
+        });
+        return {
+          notify: renotify ? ("still_failing" as const) : ("none" as const),
+          openedAt: incident.openedAt,
+        };
+      }
+    }
+  },
+});
@@ -0,0 +1,48 @@
+/**
+ * Guard for admin-only Convex functions.
+ *
+ * Callers must be signed in through Convex Auth with a user whose `role`
+ * is "admin". Failures throw a `ConvexError` carrying an HTTP-style status
+ * so clients can tell "not signed in" (401) from "not allowed" (403)
+ * instead of silently receiving empty data.
+ */
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { ConvexError } from "convex/values";
+import type { QueryCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Payload of errors thrown by `requireAdmin`
+ */
+export type AuthErrorData = {
+  code: "UNAUTHENTICATED" | "FORBIDDEN";
+  status: 401 | 403;
+  message: string;
+};
+
+/**
+ * Throw unless the caller is a signed-in admin
+ *
+ * @returns The admin's user document
+ */
+export async function requireAdmin(ctx: QueryCtx): Promise<Doc<"users">> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new ConvexError<AuthErrorData>({
+      code: "UNAUTHENTICATED",
+      status: 401,
+      message: "Sign in required",
+    });
+  }
+
+  const user = await ctx.db.get(userId);
+  if (user?.role !== "admin") {
+    throw new ConvexError<AuthErrorData>({
+      code: "FORBIDDEN",
+      status: 403,
+      message: "Admin role required",
+    });
+  }
+
+  return user;
+}
@@ -0,0 +1,50 @@
+/**
+ * Marketing attribution captured by the landing page with each signup.
+ */
+import { v, type Infer } from "convex/values";
+
+// Longest value stored for any attribution field
+const MAX_FIELD_LENGTH = 256;
+
+/**
+ * A single touch: where a visitor came from and what they landed on
+ */
+export const attributionValidator = v.object({
+  utmSource: v.optional(v.string()),
+  utmMedium: v.optional(v.string()),
+  utmCampaign: v.optional(v.string()),
+  utmTerm: v.optional(v.string()),
+  utmContent: v.optional(v.string()),
+  referrer: v.optional(v.string()),
+  landingPath: v.optional(v.string()),
+  landingVariant: v.optional(v.string()),
+  // Epoch milliseconds when the touch was recorded in the browser
+  capturedAt: v.optional(v.number()),
+});
+
+export type Attribution = Infer<typeof attributionValidator>;
+
+/**
+ * Trim and truncate client-supplied attribution, dropping empty values
+ */
+export function sanitizeAttribution(
+  attribution: Attribution | undefined
+): Attribution | undefined {
+  if (!attribution) {
+    return undefined;
+  }
+
+  const sanitized: Attribution = {};
+  for (const [key, value] of Object.entries(attribution)) {
+    if (typeof value === "string") {
+      const trimmed = value.trim().slice(0, MAX_FIELD_LENGTH);
+      if (trimmed) {
+        sanitized[key as Exclude<keyof Attribution, "capturedAt">] = trimmed;
+      }
+    } else if (typeof value === "number" && Number.isFinite(value)) {
+      sanitized.capturedAt = value;
+    }
+  }
+
+  return Object.keys(sanitized).length > 0 ? sanitized : undefined;
+}
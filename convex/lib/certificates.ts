@@ -0,0 +1,37 @@
+/**
+ * Expiry warning decisions for TLS certificates.
+ *
+ * Each warning threshold (e.g. 21, 7 and 1 days left) is announced once per
+ * certificate. Reaching a smaller threshold, or a different certificate
+ * inside a threshold, announces again; once the served certificate is
+ * outside every threshold the warning is resolved as renewed.
+ */
+import type { Doc } from "../_generated/dataModel";
+
+export type CertificateNotice = "warning" | "renewed" | "none";
+
+/**
+ * What to announce about a certificate, given the last warning recorded
+ * for its host
+ *
+ * @param previous - Last warning sent for the host, if one is open
+ * @param validTo - Expiry of the certificate being served
+ * @param threshold - Smallest threshold reached, or null outside all of them
+ */
+export function getCertificateNotice(
+  previous: Pick<Doc<"certificateWarnings">, "validTo" | "threshold"> | null,
+  validTo: number,
+  threshold: number | null
+): CertificateNotice {
+  if (threshold === null) {
+    return previous ? "renewed" : "none";
+  }
+  if (
+    previous &&
+    previous.validTo === validTo &&
+    previous.threshold <= threshold
+  ) {
+    return "none";
+  }
+  return "warning";
+}
@@ -0,0 +1,127 @@
+/**
+ * Named running totals stored in the `counters` table.
+ *
+ * Lets hot paths read aggregate numbers (waitlist size, ...) with a single
+ * indexed lookup instead of scanning the table they summarize.
+ */
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+
+/**
+ * Read a counter's current value (0 if it has never been incremented)
+ */
+export async function getCounter(ctx: QueryCtx, name: string): Promise<number> {
+  const counter = await ctx.db
+    .query("counters")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+  return counter?.value ?? 0;
+}
+
+/**
+ * Add to a counter, creating it on first use
+ *
+ * @returns The counter's new value
+ */
+export async function incrementCounter(
+  ctx: MutationCtx,
+  name: string,
+  by: number = 1
+): Promise<number> {
+  const counter = await ctx.db
+    .query("counters")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+
+  if (!counter) {
+    await ctx.db.insert("counters", { name, value: by });
+    return by;
+  }
+
+  const value = counter.value + by;
+  await ctx.db.patch(counter._id, { value });
+  return value;
+}
+
+/**
+ * Overwrite a counter, creating it if needed
+ */
+export async function setCounter(
+  ctx: MutationCtx,
+  name: string,
+  value: number
+): Promise<void> {
+  const counter = await ctx.db
+    .query("counters")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+
+  if (!counter) {
+    await ctx.db.insert("counters", { name, value });
+  } else if (counter.value !== value) {
+    await ctx.db.patch(counter._id, { value });
+  }
+}
+
+// Signup metrics kept as counters (see /api/metrics)
+export const SIGNUPS_BY_SOURCE_PREFIX = "signups_by_source:";
+export const SIGNUPS_DUPLICATE_COUNTER = "signups_duplicate";
+export const SIGNUPS_BLOCKED_PREFIX = "signups_blocked:";
+
+// While migrations:backfillSignupCounters runs, the per-source totals are
+// rebuilt under this prefix and swapped in when it finishes
+export const SIGNUPS_REBUILD_PREFIX = "signups_by_source_rebuild:";
+// Creation time of the last signup the running rebuild has tallied
+export const SIGNUPS_REBUILD_SCANNED_TO = "signups_by_source_rebuild_scanned_to";
+
+/**
+ * Name of the counter tracking live signups from `source`
+ */
+export function signupSourceCounter(source: string | undefined): string {
+  return `${SIGNUPS_BY_SOURCE_PREFIX}${source ?? "unknown"}`;
+}
+
+/**
+ * Take a deleted signup off its source counter
+ *
+ * If a rebuild is running and has already tallied the row, it comes off
+ * the rebuilt total as well.
+ */
+export async function decrementSignupSource(
+  ctx: MutationCtx,
+  signup: Doc<"signups">
+): Promise<void> {
+  await incrementCounter(ctx, signupSourceCounter(signup.source), -1);
+
+  const scannedTo = await ctx.db
+    .query("counters")
+    .withIndex("by_name", (q) => q.eq("name", SIGNUPS_REBUILD_SCANNED_TO))
+    .first();
+  if (scannedTo && signup._creationTime <= scannedTo.value) {
+    await incrementCounter(
+      ctx,
+      `${SIGNUPS_REBUILD_PREFIX}${signup.source ?? "unknown"}`,
+      -1
+    );
+  }
+}
+
+/**
+ * Every counter whose name starts with `prefix`, keyed by the remainder
+ */
+export async function listCounters(
+  ctx: QueryCtx,
+  prefix: string
+): Promise<Record<string, number>> {
+  // Every name starting with `prefix` sorts between it and prefix + U+FFFF
+  const counters = await ctx.db
+    .query("counters")
+    .withIndex("by_name", (q) =>
+      q.gte("name", prefix).lt("name", `${prefix}\uffff`)
+    )
+    .collect();
+
+  return Object.fromEntries(
+    counters.map((counter) => [counter.name.slice(prefix.length), counter.value])
+  );
+}
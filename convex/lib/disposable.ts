@@ -0,0 +1,27 @@
+/**
+ * Disposable (throwaway) email domain detection.
+ *
+ * Backed by the bundled community blocklist in disposableDomains.json,
+ * refreshed with `bun run update:disposable-domains`. Kept out of
+ * lib/email.ts so the list is never shipped to the browser.
+ */
+import disposableDomains from "./disposableDomains.json";
+
+const DISPOSABLE_DOMAINS = new Set<string>(disposableDomains);
+
+/**
+ * Whether an address uses a disposable domain (or a subdomain of one)
+ *
+ * @param normalizedEmail - Address in canonical form (see normalizeEmail)
+ */
+export function isDisposableEmail(normalizedEmail: string): boolean {
+  const domain = normalizedEmail.slice(normalizedEmail.lastIndexOf("@") + 1);
+  const labels = domain.split(".");
+
+  for (let i = 0; i < labels.length - 1; i++) {
+    if (DISPOSABLE_DOMAINS.has(labels.slice(i).join("."))) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,209 @@
+/**
+ * Email address validation and canonicalization.
+ *
+ * Shared by the signup form and Convex functions so the browser and the
+ * server agree on what counts as valid and what counts as a duplicate.
+ * The canonical form is only used for matching; the address is always
+ * stored and emailed as the subscriber typed it.
+ */
+
+const EMAIL_FORMAT = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Domains that are aliases of another provider's domain
+const DOMAIN_ALIASES: Record<string, string> = {
+  "googlemail.com": "gmail.com",
+  "pm.me": "proton.me",
+  "protonmail.com": "proton.me",
+};
+
+// Providers known to deliver "local+tag" to "local"; elsewhere a "+" may be
+// part of a distinct mailbox name, so it is kept
+const PLUS_ADDRESSING_DOMAINS = new Set([
+  "gmail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "proton.me",
+  "fastmail.com",
+  "zoho.com",
+]);
+
+/**
+ * Whether a string looks like an email address (`a@b.c`)
+ */
+export function isValidEmail(email: string): boolean {
+  return EMAIL_FORMAT.test(email.trim());
+}
+
+/**
+ * Convert an internationalized domain to its ASCII (punycode) form
+ */
+function toAsciiDomain(domain: string): string {
+  try {
+    // The URL parser applies IDNA processing to hostnames
+    return new URL(`http://${domain}`).hostname;
+  } catch {
+    return domain;
+  }
+}
+
+/**
+ * Canonical form of an address, used to detect duplicates
+ *
+ * - Trims whitespace and lowercases
+ * - Converts IDN domains to punycode
+ * - Folds provider alias domains (googlemail.com → gmail.com, ...)
+ * - Strips "+tag" subaddresses (RFC 5233) at providers known to honour
+ *   them; other domains may treat "+" as part of the mailbox name
+ * - Removes dots from Gmail local parts, which Gmail ignores
+ *
+ * @example
+ * normalizeEmail(" Jane.Doe+geo@GoogleMail.com ") // "janedoe@gmail.com"
+ */
+export function normalizeEmail(email: string): string {
+  const trimmed = email.trim().toLowerCase();
+  const at = trimmed.lastIndexOf("@");
+  if (at <= 0) {
+    return trimmed;
+  }
+
+  let local = trimmed.slice(0, at);
+  let domain = toAsciiDomain(trimmed.slice(at + 1).replace(/\.$/, ""));
+  domain = DOMAIN_ALIASES[domain] ?? domain;
+
+  if (PLUS_ADDRESSING_DOMAINS.has(domain)) {
+    // Keep the local part intact if it starts with "+" (nothing before the tag)
+    local = local.split("+")[0] || local;
+  }
+
+  if (domain === "gmail.com") {
+    local = local.replace(/\./g, "");
+  }
+
+  return `${local}@${domain}`;
+}
+
+// Popular mailbox providers checked for likely typos
+const POPULAR_DOMAINS = [
+  "gmail.com",
+  "googlemail.com",
+  "yahoo.com",
+  "hotmail.com",
+  "outlook.com",
+  "live.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+  "msn.com",
+  "comcast.net",
+  "gmx.com",
+  "yandex.com",
+  "zoho.com",
+  "fastmail.com",
+];
+
+// Real mailbox domains within typo distance of a popular one (e.g.
+// ymail.com, mail.com and email.com vs gmail.com); never corrected
+const KNOWN_DOMAINS = new Set([
+  "ymail.com",
+  "rocketmail.com",
+  "mail.com",
+  "email.com",
+  "mail.ru",
+  "mac.com",
+  "gmx.net",
+  "gmx.de",
+  "hotmail.co.uk",
+  "hotmail.de",
+  "hotmail.es",
+  "hotmail.fr",
+  "hotmail.it",
+  "outlook.de",
+  "outlook.es",
+  "outlook.fr",
+  "outlook.it",
+  "live.co.uk",
+  "live.fr",
+  "yahoo.ca",
+  "yahoo.co.uk",
+  "yahoo.de",
+  "yahoo.es",
+  "yahoo.fr",
+  "yahoo.it",
+  "protonmail.ch",
+  "fastmail.fm",
+  "yandex.ru",
+  "zoho.eu",
+]);
+
+/**
+ * Largest edit distance still considered a typo of `domain`; short
+ * domains allow only one edit so e.g. "acme.com" isn't taken for "me.com"
+ */
+function maxTypoDistance(domain: string): number {
+  return domain.length >= 9 ? 2 : 1;
+}
+
+/**
+ * Optimal string alignment distance: Levenshtein plus adjacent
+ * transpositions, so "gmial" is one edit from "gmail"
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Suggest a correction for a likely mistyped popular domain
+ *
+ * @returns The corrected address (local part as typed), or null if the
+ * domain is a popular or otherwise known one, or not close to any
+ *
+ * @example
+ * suggestEmail("jane@gmial.con") // "jane@gmail.com"
+ */
+export function suggestEmail(email: string): string | null {
+  const trimmed = email.trim();
+  const at = trimmed.lastIndexOf("@");
+  if (at <= 0) {
+    return null;
+  }
+
+  const domain = trimmed.slice(at + 1).toLowerCase();
+  if (!domain || POPULAR_DOMAINS.includes(domain) || KNOWN_DOMAINS.has(domain)) {
+    return null;
+  }
+
+  let best: { domain: string; distance: number } | null = null;
+  for (const candidate of POPULAR_DOMAINS) {
+    const distance = editDistance(domain, candidate);
+    if (distance <= maxTypoDistance(candidate) && (!best || distance < best.distance)) {
+      best = { domain: candidate, distance };
+    }
+  }
+
+  return best ? `${trimmed.slice(0, at)}@${best.domain}` : null;
+}
@@ -0,0 +1,16 @@
+/**
+ * Payloads of `ConvexError`s thrown to the signup form.
+ *
+ * The `message` is written for visitors and shown as-is; `code` lets the
+ * client react to specific failures.
+ */
+export type SignupErrorCode =
+  | "INVALID_EMAIL"
+  | "DISPOSABLE_EMAIL"
+  | "RATE_LIMITED"
+  | "TOO_FAST";
+
+export type SignupErrorData = {
+  code: SignupErrorCode;
+  message: string;
+};
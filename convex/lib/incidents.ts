@@ -0,0 +1,46 @@
+/**
+ * Incident state transitions for the health-check cron.
+ *
+ * Kept free of database access so the rules can be tested on their own;
+ * `incidents.recordCheckRun` applies the result.
+ */
+import type { Doc } from "../_generated/dataModel";
+
+export type IncidentTransition<T> =
+  // Healthy with nothing open
+  | { action: "none" }
+  // First failing run
+  | { action: "open" }
+  // Another failing run; `renotify` once the interval has passed
+  | { action: "update"; incident: T; renotify: boolean }
+  // First passing run after a failure
+  | { action: "resolve"; incident: T };
+
+/**
+ * What a cron run's outcome does to the open incident, if any
+ *
+ * @param open - The currently open incident, or null
+ * @param healthy - Whether every check in the run passed
+ * @param now - Time of the run (epoch milliseconds)
+ * @param renotifyIntervalMs - Minimum time between "still failing" reminders
+ */
+export function getIncidentTransition<
+  T extends Pick<Doc<"incidents">, "lastNotifiedAt">,
+>(
+  open: T | null,
+  healthy: boolean,
+  now: number,
+  renotifyIntervalMs: number
+): IncidentTransition<T> {
+  if (healthy) {
+    return open ? { action: "resolve", incident: open } : { action: "none" };
+  }
+  if (!open) {
+    return { action: "open" };
+  }
+  return {
+    action: "update",
+    incident: open,
+    renotify: now - open.lastNotifiedAt >= renotifyIntervalMs,
+  };
+}
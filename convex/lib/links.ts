@@ -0,0 +1,99 @@
+/**
+ * Signed, per-subscriber links included in outgoing email.
+ *
+ * Tokens are HMACs over the signup ID keyed with `LINK_SIGNING_SECRET`, so
+ * they never expire and need no table of their own; rotating the secret
+ * invalidates every link that has already been sent.
+ *
+ * The profile token handed to the browser right after signup is scoped and
+ * short-lived instead: it only edits the profile, and only for an hour.
+ */
+import type { QueryCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { getSiteUrl } from "./mail";
+import { signValue, verifySignedValue } from "./tokens";
+
+// The profile step is filled in right after signup
+const PROFILE_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+export function getLinkSigningSecret(): string {
+  const secret = process.env.LINK_SIGNING_SECRET;
+  // Fail closed: unsigned links would let anyone unsubscribe anyone
+  if (!secret) {
+    throw new Error("LINK_SIGNING_SECRET not configured");
+  }
+  return secret;
+}
+
+/**
+ * Create the token that identifies a subscriber in emailed links
+ */
+export async function createSignupLinkToken(
+  signupId: Id<"signups">
+): Promise<string> {
+  return signValue(signupId, getLinkSigningSecret());
+}
+
+/**
+ * Resolve a link token back to its signup ID
+ *
+ * @returns The signup ID, or null if the token was tampered with
+ */
+export async function verifySignupLinkToken(
+  token: string
+): Promise<Id<"signups"> | null> {
+  const signupId = await verifySignedValue(token, getLinkSigningSecret());
+  return signupId as Id<"signups"> | null;
+}
+
+/**
+ * Build a tokenized link to a subscriber-facing page
+ *
+ * @param path - Site path, e.g. "/unsubscribe" or "/preferences"
+ */
+export async function buildSignupLinkUrl(
+  path: string,
+  signupId: Id<"signups">
+): Promise<string> {
+  const token = await createSignupLinkToken(signupId);
+  return `${getSiteUrl()}${path}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Resolve a signed link token to its signup, if both are still valid
+ */
+export async function getSignupFromLinkToken(ctx: QueryCtx, token: string) {
+  const signupId = await verifySignupLinkToken(token);
+  const normalizedId = signupId && ctx.db.normalizeId("signups", signupId);
+  if (!normalizedId) {
+    return { valid: false as const };
+  }
+  return { valid: true as const, signup: await ctx.db.get(normalizedId) };
+}
+
+/**
+ * Token letting the browser that just signed up fill in the profile step
+ */
+export async function createProfileToken(
+  signupId: Id<"signups">
+): Promise<string> {
+  const expiresAt = Date.now() + PROFILE_TOKEN_TTL_MS;
+  return signValue(`profile:${signupId}:${expiresAt}`, getLinkSigningSecret());
+}
+
+/**
+ * Resolve a profile token to its signup, if it is genuine and unexpired
+ */
+export async function getSignupFromProfileToken(ctx: QueryCtx, token: string) {
+  const value = await verifySignedValue(token, getLinkSigningSecret());
+  const [purpose, signupId, expiresAt] = value?.split(":") ?? [];
+  if (purpose !== "profile" || !(Number(expiresAt) > Date.now())) {
+    return { valid: false as const };
+  }
+
+  const normalizedId = ctx.db.normalizeId("signups", signupId);
+  if (!normalizedId) {
+    return { valid: false as const };
+  }
+  return { valid: true as const, signup: await ctx.db.get(normalizedId) };
+}
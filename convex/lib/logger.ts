@@ -0,0 +1,191 @@
+/**
+ * Structured logging shared by Convex functions and the Next.js server.
+ *
+ * Each call emits one JSON line: timestamp, level, a dotted event name
+ * ("health_check.failed"), correlation IDs, an optional duration and any
+ * structured fields. Email addresses and secrets are redacted before
+ * anything is written. Set `LOG_FORMAT=pretty` for readable single-line
+ * output during local development and `LOG_LEVEL` to drop noisy levels.
+ *
+ * Only uses `console` and Web Crypto, so it runs in the Convex runtime,
+ * Node and the edge alike.
+ */
+import { generateToken } from "./tokens";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(event: string, fields?: LogFields): void;
+  info(event: string, fields?: LogFields): void;
+  warn(event: string, fields?: LogFields): void;
+  error(event: string, fields?: LogFields): void;
+  /** Logger that adds `fields` (e.g. a request ID) to every entry */
+  child(fields: LogFields): Logger;
+  /** Start timing; the returned function logs with `durationMs` */
+  time(): (level: LogLevel, event: string, fields?: LogFields) => void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// Environment variables whose values must never appear in logs
+const SECRET_ENV_VARS = [
+  "CRON_SECRET",
+  "CRON_SECRET_PREVIOUS",
+  "MONITOR_SECRET",
+  "METRICS_TOKEN",
+  "LINK_SIGNING_SECRET",
+  "SLACK_WEBHOOK_URL",
+  "ALERT_WEBHOOK_URL",
+  "DISCORD_WEBHOOK_URL",
+  "PAGERDUTY_ROUTING_KEY",
+  "SMTP_PASS",
+];
+
+// Field names whose values are always secret
+const SECRET_KEY_PATTERN =
+  /secret|token|password|passwd|authorization|cookie|api[_-]?key|routing[_-]?key|webhook/i;
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+// Webhook URLs embed their credential in the path
+const WEBHOOK_URL_PATTERN =
+  /https:\/\/(?:hooks\.slack\.com|discord(?:app)?\.com\/api\/webhooks|events\.pagerduty\.com)\S*/g;
+
+const REDACTED = "[REDACTED]";
+
+function redactString(value: string): string {
+  let result = value
+    .replace(WEBHOOK_URL_PATTERN, REDACTED)
+    .replace(EMAIL_PATTERN, "$1***@$2");
+
+  for (const name of SECRET_ENV_VARS) {
+    // Rotation variables may hold a comma-separated list
+    for (const secret of (process.env[name] ?? "").split(",")) {
+      // Very short values would redact ordinary words
+      if (secret.trim().length >= 8) {
+        result = result.split(secret.trim()).join(REDACTED);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Copy of `value` with emails masked and secrets removed
+ */
+export function redact(value: unknown, key?: string, depth: number = 0): unknown {
+  if (key && SECRET_KEY_PATTERN.test(key)) {
+    return value === undefined || value === null ? value : REDACTED;
+  }
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value.stack ? { stack: redactString(value.stack) } : {}),
+    };
+  }
+  if (value === null || typeof value !== "object" || depth > 5) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, undefined, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, redact(v, k, depth + 1)])
+  );
+}
+
+/**
+ * Short random ID for correlating the log lines of one request or run
+ */
+export function newRequestId(): string {
+  return generateToken(8);
+}
+
+function minimumLevel(): number {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  return LEVEL_ORDER[level ?? "info"] ?? LEVEL_ORDER.info;
+}
+
+function formatPretty(entry: LogFields): string {
+  const { ts, level, event, ...fields } = entry;
+  const time = String(ts).slice(11, 23);
+  const details = Object.entries(fields)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}=${typeof v === "string" ? v : JSON.stringify(v)}`)
+    .join(" ");
+  return `${time} ${String(level).toUpperCase().padEnd(5)} ${event}${details ? ` ${details}` : ""}`;
+}
+
+function write(level: LogLevel, event: string, fields: LogFields) {
+  if (LEVEL_ORDER[level] < minimumLevel()) {
+    return;
+  }
+
+  // Fields can't override the reserved keys
+  const entry = redact({
+    ts: new Date().toISOString(),
+    level,
+    event,
+    ...fields,
+  }) as LogFields;
+  Object.assign(entry, { level, event });
+  const line =
+    process.env.LOG_FORMAT === "pretty" ? formatPretty(entry) : JSON.stringify(entry);
+
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Create a logger whose entries all carry `context`
+ *
+ * @example
+ * ```typescript
+ * const log = createLogger({ requestId: newRequestId() });
+ * const done = log.time();
+ * // ...
+ * done("info", "cron.completed", { passed: 2, failed: 0 });
+ * ```
+ */
+export function createLogger(context: LogFields = {}): Logger {
+  const log = (level: LogLevel) => (event: string, fields: LogFields = {}) =>
+    write(level, event, { ...context, ...fields });
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (fields) => createLogger({ ...context, ...fields }),
+    time: () => {
+      const startTime = Date.now();
+      return (level, event, fields = {}) =>
+        write(level, event, {
+          ...context,
+          ...fields,
+          durationMs: Date.now() - startTime,
+        });
+    },
+  };
+}
+
+/**
+ * Logger without request context, for module-level use
+ */
+export const logger = createLogger();
@@ -0,0 +1,72 @@
+/**
+ * Outgoing mail abstraction.
+ *
+ * Convex actions send mail through a `MailSender` so the delivery provider
+ * can be swapped without touching the functions that compose messages.
+ * The provider is selected with the `MAIL_PROVIDER` Convex environment
+ * variable; only the console sender ships today, which logs messages
+ * instead of delivering them (useful for local development and previews).
+ */
+import { logger } from "./logger";
+
+/**
+ * A single outgoing email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Anything capable of delivering a `MailMessage`
+ */
+export interface MailSender {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Stand-in sender that writes messages to the Convex logs
+ *
+ * Prints the full message, links included, so it stays a plain-text
+ * mailbox rather than going through the redacting structured logger.
+ * Never use it in production.
+ */
+export const consoleMailSender: MailSender = {
+  name: "console",
+  async send(message) {
+    console.log(
+      `[MAIL] To: ${message.to}\n[MAIL] Subject: ${message.subject}\n\n${message.text}`
+    );
+  },
+};
+
+const senders: Record<string, MailSender> = {
+  console: consoleMailSender,
+};
+
+/**
+ * Resolve the configured mail sender
+ *
+ * @returns The sender named by `MAIL_PROVIDER`, falling back to the console sender
+ */
+export function getMailSender(): MailSender {
+  const provider = process.env.MAIL_PROVIDER ?? "console";
+  const sender = senders[provider];
+
+  if (!sender) {
+    logger.warn("mail.unknown_provider", { provider, fallback: "console" });
+    return consoleMailSender;
+  }
+
+  return sender;
+}
+
+/**
+ * Public base URL of the site, used to build links in emails
+ */
+export function getSiteUrl(): string {
+  return (process.env.SITE_URL ?? "http://localhost:3000").replace(/\/$/, "");
+}
@@ -0,0 +1,40 @@
+/**
+ * Guard for functions called by the health-check cron.
+ *
+ * The cron runs in Next.js without a signed-in user, so it authenticates
+ * with `MONITOR_SECRET`, which must be set to the same value in both the
+ * Vercel and Convex environments. Missing configuration fails closed.
+ */
+import { ConvexError } from "convex/values";
+import type { AuthErrorData } from "./admin";
+import { normalizeEmail } from "./email";
+import { constantTimeEqual } from "./tokens";
+
+/**
+ * Reserved address the cron's synthetic signup check submits
+ *
+ * `.invalid` is reserved (RFC 2606), so no one can receive mail there.
+ * Signups for it are flagged `isSynthetic` and skip every side effect.
+ */
+export const SYNTHETIC_SIGNUP_EMAIL = "synthetic-signup-check@gist-geo.invalid";
+
+/**
+ * Whether an address is the synthetic check's reserved address
+ */
+export function isSyntheticSignupEmail(email: string): boolean {
+  return normalizeEmail(email) === SYNTHETIC_SIGNUP_EMAIL;
+}
+
+/**
+ * Throw unless `secret` matches the Convex `MONITOR_SECRET`
+ */
+export function requireMonitorSecret(secret: string): void {
+  const expected = process.env.MONITOR_SECRET;
+  if (!expected || !constantTimeEqual(secret, expected)) {
+    throw new ConvexError<AuthErrorData>({
+      code: "UNAUTHENTICATED",
+      status: 401,
+      message: "Invalid monitor secret",
+    });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Subscriber notification preferences.
+ *
+ * Anything that sends non-transactional email must check
+ * `shouldSendTopic` first. Subscribers without a saved preferences row
+ * get `DEFAULT_PREFERENCES`.
+ */
+import { v, type Infer } from "convex/values";
+import type { QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+
+export const topicsValidator = v.object({
+  launch: v.boolean(),
+  productUpdates: v.boolean(),
+  research: v.boolean(),
+});
+
+export const frequencyValidator = v.union(
+  v.literal("immediate"),
+  v.literal("weekly"),
+  v.literal("monthly")
+);
+
+export type Topic = keyof Infer<typeof topicsValidator>;
+export type Frequency = Infer<typeof frequencyValidator>;
+
+export const DEFAULT_PREFERENCES: {
+  topics: Infer<typeof topicsValidator>;
+  frequency: Frequency;
+} = {
+  topics: { launch: true, productUpdates: true, research: true },
+  frequency: "immediate",
+};
+
+/**
+ * Saved preferences for a signup, or the defaults
+ */
+export async function getPreferences(
+  ctx: QueryCtx,
+  signupId: Id<"signups">
+) {
+  const saved = await ctx.db
+    .query("notificationPreferences")
+    .withIndex("by_signup", (q) => q.eq("signupId", signupId))
+    .first();
+
+  return saved
+    ? { topics: saved.topics, frequency: saved.frequency, updatedAt: saved.updatedAt }
+    : { ...DEFAULT_PREFERENCES, updatedAt: null };
+}
+
+/**
+ * Whether a signup may receive email about `topic`
+ *
+ * Only confirmed (or pre-double-opt-in) subscribers who opted into the
+ * topic qualify. Callers batching digests should also honour `frequency`.
+ */
+export async function shouldSendTopic(
+  ctx: QueryCtx,
+  signup: Doc<"signups">,
+  topic: Topic
+): Promise<boolean> {
+  if (signup.status !== undefined && signup.status !== "confirmed") {
+    return false;
+  }
+  const preferences = await getPreferences(ctx, signup._id);
+  return preferences.topics[topic];
+}
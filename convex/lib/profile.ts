@@ -0,0 +1,62 @@
+/**
+ * Optional profile details collected after the email is captured.
+ */
+import { v, type Infer } from "convex/values";
+
+// Longest value stored for free-text profile fields
+const MAX_FIELD_LENGTH = 128;
+
+export const aiEngineValidator = v.union(
+  v.literal("chatgpt"),
+  v.literal("perplexity"),
+  v.literal("claude"),
+  v.literal("gemini")
+);
+
+export const profileValidator = v.object({
+  companyDomain: v.optional(v.string()),
+  role: v.optional(v.string()),
+  aiEngines: v.optional(v.array(aiEngineValidator)),
+  // Epoch milliseconds of the last profile update
+  updatedAt: v.number(),
+});
+
+export type AiEngine = Infer<typeof aiEngineValidator>;
+export type SignupProfile = Infer<typeof profileValidator>;
+
+/**
+ * Reduce whatever was typed to a bare hostname
+ * ("https://www.Acme.com/about" → "acme.com")
+ */
+export function normalizeCompanyDomain(value: string): string | undefined {
+  const host = value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .split(/[/?#:]/)[0];
+
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host)
+    ? host.slice(0, MAX_FIELD_LENGTH)
+    : undefined;
+}
+
+/**
+ * Trim and truncate client-supplied profile fields, dropping empty values
+ */
+export function sanitizeProfile(profile: {
+  companyDomain?: string;
+  role?: string;
+  aiEngines?: AiEngine[];
+}): Omit<SignupProfile, "updatedAt"> {
+  const role = profile.role?.trim().slice(0, MAX_FIELD_LENGTH);
+  const aiEngines = profile.aiEngines && [...new Set(profile.aiEngines)];
+
+  return {
+    companyDomain: profile.companyDomain
+      ? normalizeCompanyDomain(profile.companyDomain)
+      : undefined,
+    role: role || undefined,
+    aiEngines: aiEngines?.length ? aiEngines : undefined,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Token-bucket rate limiting backed by the `rateLimits` table.
+ *
+ * Each key holds up to `capacity` tokens that refill continuously over
+ * `windowMs`; an action is allowed when a token can be taken. Buckets are
+ * only written when consulted, and a bucket that has refilled completely
+ * behaves exactly like a missing one, so each new bucket schedules its own
+ * deletion for when it is full again. Idle keys cost nothing.
+ */
+import { internal } from "../_generated/api";
+import type { MutationCtx } from "../_generated/server";
+
+export interface RateLimitConfig {
+  /** Burst size: tokens available to an idle key */
+  capacity: number;
+  /** Time for an empty bucket to refill completely */
+  windowMs: number;
+}
+
+/**
+ * Tokens in a bucket at `now`, after refilling since it was last written
+ */
+export function refillTokens(
+  bucket: { tokens: number; updatedAt: number } | null,
+  now: number,
+  config: RateLimitConfig
+): number {
+  if (!bucket) {
+    return config.capacity;
+  }
+  const refillPerMs = config.capacity / config.windowMs;
+  return Math.min(
+    config.capacity,
+    bucket.tokens + (now - bucket.updatedAt) * refillPerMs
+  );
+}
+
+/**
+ * When a bucket holding `tokens` at `now` will be full again
+ */
+export function fullAt(
+  tokens: number,
+  now: number,
+  config: RateLimitConfig
+): number {
+  const refillPerMs = config.capacity / config.windowMs;
+  return now + Math.ceil((config.capacity - tokens) / refillPerMs);
+}
+
+/**
+ * Try to take one token for `key`
+ *
+ * @returns True if allowed, false if the bucket is empty
+ */
+export async function consumeRateLimit(
+  ctx: MutationCtx,
+  key: string,
+  config: RateLimitConfig
+): Promise<boolean> {
+  const now = Date.now();
+  const bucket = await ctx.db
+    .query("rateLimits")
+    .withIndex("by_key", (q) => q.eq("key", key))
+    .first();
+
+  const available = refillTokens(bucket, now, config);
+  if (available < 1) {
+    return false;
+  }
+
+  const state = {
+    tokens: available - 1,
+    updatedAt: now,
+    fullAt: fullAt(available - 1, now, config),
+  };
+  if (bucket) {
+    await ctx.db.patch(bucket._id, state);
+  } else {
+    const bucketId = await ctx.db.insert("rateLimits", { key, ...state });
+    await ctx.scheduler.runAt(state.fullAt, internal.rateLimits.expire, {
+      bucketId,
+    });
+  }
+  return true;
+}
+
+/**
+ * Read a "<count>/<seconds>" limit from the environment, e.g. "5/3600"
+ */
+export function rateLimitFromEnv(
+  name: string,
+  fallback: RateLimitConfig
+): RateLimitConfig {
+  const match = process.env[name]?.match(/^(\d+)\/(\d+)$/);
+  if (!match) {
+    return fallback;
+  }
+  return { capacity: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+}
@@ -0,0 +1,220 @@
+/**
+ * "GEO snapshot" teaser reports.
+ *
+ * A snapshot is a small sample of how often a brand shows up in AI engine
+ * answers. Reports come from a `SnapshotProvider` so the data source can be
+ * swapped without touching the Convex functions that cache and serve them.
+ * The provider is selected with the `SNAPSHOT_PROVIDER` Convex environment
+ * variable; only the fixture provider ships today, which derives a stable
+ * report from the domain itself (useful for local development and demos).
+ *
+ * Visitors see a teaser; the full report is unlocked by a token that
+ * `createSignup` hands back once an email has been submitted.
+ */
+import { v, type Infer } from "convex/values";
+import { getLinkSigningSecret } from "./links";
+import { logger } from "./logger";
+import { aiEngineValidator, type AiEngine } from "./profile";
+import { sha256Hex, signValue, verifySignedValue } from "./tokens";
+
+// Example prompts shown before the report is unlocked
+const TEASER_PROMPTS = 2;
+
+export const snapshotReportValidator = v.object({
+  domain: v.string(),
+  brand: v.string(),
+  competitor: v.string(),
+  // How many sampled prompts mentioned the brand, per engine
+  engines: v.array(
+    v.object({
+      engine: aiEngineValidator,
+      promptsSampled: v.number(),
+      mentions: v.number(),
+    })
+  ),
+  // Percent of brand + competitor mentions that went to each
+  shareOfVoice: v.object({ brand: v.number(), competitor: v.number() }),
+  prompts: v.array(
+    v.object({
+      prompt: v.string(),
+      engine: aiEngineValidator,
+      brandMentioned: v.boolean(),
+      competitorMentioned: v.boolean(),
+    })
+  ),
+});
+
+export type SnapshotReport = Infer<typeof snapshotReportValidator>;
+
+/**
+ * Anything capable of producing a `SnapshotReport` for a domain
+ */
+export interface SnapshotProvider {
+  name: string;
+  generateReport(domain: string): Promise<SnapshotReport>;
+}
+
+// ============================================================================
+// Fixture provider
+// ============================================================================
+
+const FIXTURE_ENGINES: AiEngine[] = ["chatgpt", "perplexity", "claude", "gemini"];
+
+const FIXTURE_COMPETITORS = [
+  "Northwind",
+  "Contoso",
+  "Globex",
+  "Initech",
+  "Umbrella",
+  "Hooli",
+];
+
+const FIXTURE_PROMPTS = [
+  "What are the best alternatives to {competitor}?",
+  "Which companies are leaders in {brand}'s category?",
+  "Is {brand} worth it compared to {competitor}?",
+  "Recommend a tool like {brand} for a small team",
+  "Who should I talk to about switching from {competitor}?",
+  "What do reviewers say about {brand}?",
+  "Top-rated options for a growing business this year",
+  "Compare {brand} and {competitor} on pricing",
+];
+
+/**
+ * Small deterministic PRNG (mulberry32) so a domain always gets the same report
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function brandFromDomain(domain: string): string {
+  const name = domain.split(".")[0];
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Offline provider returning a plausible, repeatable report for any domain
+ */
+export const fixtureSnapshotProvider: SnapshotProvider = {
+  name: "fixture",
+  async generateReport(domain) {
+    const random = seededRandom(parseInt((await sha256Hex(domain)).slice(0, 8), 16));
+    const brand = brandFromDomain(domain);
+    const competitor =
+      FIXTURE_COMPETITORS[Math.floor(random() * FIXTURE_COMPETITORS.length)];
+
+    const prompts = FIXTURE_PROMPTS.map((template, i) => ({
+      prompt: template.replace("{brand}", brand).replace("{competitor}", competitor),
+      engine: FIXTURE_ENGINES[i % FIXTURE_ENGINES.length],
+      brandMentioned: random() < 0.45,
+      competitorMentioned: random() < 0.6,
+    }));
+
+    const engines = FIXTURE_ENGINES.map((engine) => {
+      const sampled = prompts.filter((p) => p.engine === engine);
+      return {
+        engine,
+        promptsSampled: sampled.length,
+        mentions: sampled.filter((p) => p.brandMentioned).length,
+      };
+    });
+
+    const brandMentions = prompts.filter((p) => p.brandMentioned).length;
+    const competitorMentions = prompts.filter((p) => p.competitorMentioned).length;
+    const total = brandMentions + competitorMentions;
+    const brandShare = total > 0 ? Math.round((brandMentions / total) * 100) : 0;
+
+    return {
+      domain,
+      brand,
+      competitor,
+      engines,
+      shareOfVoice: {
+        brand: brandShare,
+        competitor: total > 0 ? 100 - brandShare : 0,
+      },
+      prompts,
+    };
+  },
+};
+
+const providers: Record<string, SnapshotProvider> = {
+  fixture: fixtureSnapshotProvider,
+};
+
+/**
+ * Resolve the configured snapshot provider
+ *
+ * @returns The provider named by `SNAPSHOT_PROVIDER`, falling back to the fixture provider
+ */
+export function getSnapshotProvider(): SnapshotProvider {
+  const name = process.env.SNAPSHOT_PROVIDER ?? "fixture";
+  const provider = providers[name];
+
+  if (!provider) {
+    logger.warn("snapshot.unknown_provider", { provider: name, fallback: "fixture" });
+    return fixtureSnapshotProvider;
+  }
+
+  return provider;
+}
+
+// ============================================================================
+// Teaser and unlock
+// ============================================================================
+
+/**
+ * The part of a report shown before an email is submitted
+ */
+export function toSnapshotTeaser(report: SnapshotReport) {
+  return {
+    domain: report.domain,
+    brand: report.brand,
+    competitor: report.competitor,
+    promptsSampled: report.prompts.length,
+    mentions: report.prompts.filter((p) => p.brandMentioned).length,
+    shareOfVoice: report.shareOfVoice,
+    examplePrompts: report.prompts.slice(0, TEASER_PROMPTS),
+    lockedPrompts: Math.max(0, report.prompts.length - TEASER_PROMPTS),
+  };
+}
+
+export type SnapshotTeaser = ReturnType<typeof toSnapshotTeaser>;
+
+export type SnapshotTeaserResult =
+  | { status: "ok"; teaser: SnapshotTeaser }
+  | { status: "invalid_domain" }
+  | { status: "rate_limited" };
+
+/**
+ * How long a generated report is served from cache (`SNAPSHOT_CACHE_HOURS`)
+ */
+export function getSnapshotCacheMs(): number {
+  const hours = Number(process.env.SNAPSHOT_CACHE_HOURS ?? 24);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+}
+
+/**
+ * Token unlocking the full report for `domain`, issued after signup
+ */
+export async function createSnapshotUnlockToken(domain: string): Promise<string> {
+  return signValue(`snapshot:${domain}`, getLinkSigningSecret());
+}
+
+/**
+ * Whether `token` unlocks the full report for `domain`
+ */
+export async function verifySnapshotUnlockToken(
+  token: string,
+  domain: string
+): Promise<boolean> {
+  const value = await verifySignedValue(token, getLinkSigningSecret());
+  return value === `snapshot:${domain}`;
+}
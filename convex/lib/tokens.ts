@@ -0,0 +1,117 @@
+/**
+ * Token helpers shared by Convex functions.
+ *
+ * Uses the Web Crypto API, which is available in both the Convex runtime
+ * and Node, so these helpers can run inside queries, mutations and actions.
+ */
+
+/**
+ * Generate a URL-safe random token
+ *
+ * @param byteLength - Number of random bytes (default: 32)
+ * @returns Hex-encoded token string
+ */
+export function generateToken(byteLength: number = 32): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes);
+}
+
+// Unambiguous characters for human-facing codes (no 0/O, 1/I/L)
+const CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+/**
+ * Generate a short, human-friendly random code (e.g. for share links)
+ *
+ * @param length - Number of characters (default: 8)
+ */
+export function generateCode(length: number = 8): string {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+}
+
+/**
+ * Encode bytes as a lowercase hex string
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+/**
+ * SHA-256 digest of a string, hex-encoded
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value)
+  );
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * HMAC-SHA-256 of a string keyed with a server secret, hex-encoded
+ */
+export async function hmacHex(value: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(value)
+  );
+  return toHex(new Uint8Array(signature));
+}
+
+/**
+ * Compare two strings without short-circuiting on the first mismatch
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Sign a value so it can be embedded in a link and verified later
+ *
+ * @param value - Payload to sign (must not contain ".")
+ * @param secret - HMAC secret
+ * @returns Token of the form `<value>.<signature>`
+ */
+export async function signValue(value: string, secret: string): Promise<string> {
+  return `${value}.${await hmacHex(value, secret)}`;
+}
+
+/**
+ * Verify a token produced by `signValue`
+ *
+ * @returns The original value, or null if the signature does not match
+ */
+export async function verifySignedValue(
+  token: string,
+  secret: string
+): Promise<string | null> {
+  const separator = token.lastIndexOf(".");
+  if (separator <= 0) {
+    return null;
+  }
+
+  const value = token.slice(0, separator);
+  const signature = token.slice(separator + 1);
+  const expected = await hmacHex(value, secret);
+
+  return constantTimeEqual(signature, expected) ? value : null;
+}
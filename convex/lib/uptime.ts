@@ -0,0 +1,41 @@
+/**
+ * Uptime history for the public status page.
+ *
+ * Every cron run writes one raw `checkResults` row per check and bumps the
+ * matching `checkDailyStats` rollup in the same mutation. Raw rows are
+ * pruned after `RAW_RETENTION_DAYS`; rollups are kept, so history beyond
+ * a week is served entirely from daily aggregates.
+ */
+
+export const RAW_RETENTION_DAYS = 7;
+
+// Days of history shown on the status page
+export const HISTORY_DAYS = 90;
+
+// Expired raw rows deleted per cron run, keeping each mutation small
+export const PRUNE_BATCH_SIZE = 100;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC calendar day of a timestamp, e.g. "2025-01-31"
+ */
+export function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * The last `count` UTC days ending today, oldest first
+ */
+export function lastDays(count: number, now: number = Date.now()): string[] {
+  return Array.from({ length: count }, (_, i) =>
+    utcDay(now - (count - 1 - i) * DAY_MS)
+  );
+}
+
+/**
+ * Success percentage rounded to two decimals, or null with no data
+ */
+export function uptimePercent(successes: number, total: number): number | null {
+  return total > 0 ? Math.round((successes / total) * 10000) / 100 : null;
+}
@@ -0,0 +1,327 @@
+/**
+ * Referral waitlist bookkeeping.
+ *
+ * Every signup gets a sequential waitlist number and a share code. Each
+ * confirmed referral moves the referrer `REFERRAL_BOOST` places up the
+ * queue. The resulting sort key is stored as `waitlistScore`, and every
+ * score is tallied in `waitlistBuckets` so a position can be read without
+ * scanning signups.
+ */
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { incrementCounter } from "./counters";
+import { generateCode } from "./tokens";
+
+// Places gained per confirmed referral
+export const REFERRAL_BOOST = 10;
+
+// Counter holding the last waitlist number handed out; never decremented,
+// so numbers stay unique after deletes
+export const WAITLIST_COUNTER = "waitlist";
+
+// Counter holding the number of signups currently on the waitlist, i.e.
+// the number of signups with a `waitlistScore`
+export const WAITLIST_SIZE_COUNTER = "waitlist_size";
+
+// Score buckets: level 0 counts each score, and each level above groups
+// BUCKET_FANOUT buckets of the level below. The top level is open-ended.
+export const BUCKET_FANOUT = 16;
+export const BUCKET_LEVELS = 5;
+
+export interface BucketRange {
+  level: number;
+  // Inclusive lower bound; null for no bound
+  from: number | null;
+  // Exclusive upper bound
+  to: number;
+}
+
+/**
+ * Sort key for the queue: lower is closer to the front, and may go below 1
+ * once referrals outweigh the waitlist number
+ */
+export function waitlistScore(
+  waitlistNumber: number,
+  confirmedReferrals: number
+): number {
+  return waitlistNumber - confirmedReferrals * REFERRAL_BOOST;
+}
+
+/**
+ * The bucket holding `score` at every level, from exact score to top level
+ */
+export function scoreBuckets(score: number): { level: number; bucket: number }[] {
+  return Array.from({ length: BUCKET_LEVELS + 1 }, (_, level) => ({
+    level,
+    bucket: Math.floor(score / BUCKET_FANOUT ** level),
+  }));
+}
+
+/**
+ * Bucket ranges that together count every score below `score` exactly once
+ *
+ * At each level these are the siblings to the left of the bucket holding
+ * `score`, fewer than BUCKET_FANOUT of them. At the top level it is every
+ * bucket to the left, but each spans about a million scores.
+ */
+export function bucketRangesBelow(score: number): BucketRange[] {
+  return scoreBuckets(score).map(({ level, bucket }) => ({
+    level,
+    from:
+      level === BUCKET_LEVELS
+        ? null
+        : Math.floor(bucket / BUCKET_FANOUT) * BUCKET_FANOUT,
+    to: bucket,
+  }));
+}
+
+async function adjustBuckets(ctx: MutationCtx, score: number, by: number) {
+  for (const { level, bucket } of scoreBuckets(score)) {
+    const row = await ctx.db
+      .query("waitlistBuckets")
+      .withIndex("by_level_bucket", (q) =>
+        q.eq("level", level).eq("bucket", bucket)
+      )
+      .first();
+    const count = (row?.count ?? 0) + by;
+    if (!row) {
+      await ctx.db.insert("waitlistBuckets", { level, bucket, count });
+    } else if (count === 0) {
+      await ctx.db.delete(row._id);
+    } else {
+      await ctx.db.patch(row._id, { count });
+    }
+  }
+}
+
+/**
+ * Record a change of a signup's score in the bucket counts; undefined means
+ * the signup is not (or no longer) on the waitlist
+ */
+export async function moveScore(
+  ctx: MutationCtx,
+  from: number | undefined,
+  to: number | undefined
+) {
+  if (from === to) {
+    return;
+  }
+  if (from !== undefined) {
+    await adjustBuckets(ctx, from, -1);
+  }
+  if (to !== undefined) {
+    await adjustBuckets(ctx, to, 1);
+  }
+}
+
+/**
+ * Queue position for a signup (1 is the front of the line)
+ *
+ * Sums the bucket counts below the signup's score, then adds the signups
+ * with the same score and an earlier waitlist number. Equal scores need
+ * the same number less a multiple of REFERRAL_BOOST, so there is at most
+ * one such signup per referral count.
+ */
+export async function computePosition(
+  ctx: QueryCtx,
+  signup: Pick<Doc<"signups">, "waitlistNumber" | "waitlistScore">
+): Promise<number | null> {
+  const { waitlistNumber, waitlistScore: score } = signup;
+  if (waitlistNumber === undefined || score === undefined) {
+    return null;
+  }
+
+  let ahead = 0;
+  for (const { level, from, to } of bucketRangesBelow(score)) {
+    const buckets = await ctx.db
+      .query("waitlistBuckets")
+      .withIndex("by_level_bucket", (q) =>
+        from === null
+          ? q.eq("level", level).lt("bucket", to)
+          : q.eq("level", level).gte("bucket", from).lt("bucket", to)
+      )
+      .collect();
+    ahead += buckets.reduce((sum, { count }) => sum + count, 0);
+  }
+
+  const tiedEarlier = await ctx.db
+    .query("signups")
+    .withIndex("by_waitlist_score", (q) =>
+      q.eq("waitlistScore", score).lt("waitlistNumber", waitlistNumber)
+    )
+    .collect();
+
+  return ahead + tiedEarlier.length + 1;
+}
+
+/**
+ * Set a signup's referral credit and move it to the matching place in line
+ */
+export async function setConfirmedReferrals(
+  ctx: MutationCtx,
+  signup: Doc<"signups">,
+  confirmedReferrals: number
+) {
+  if (signup.waitlistNumber === undefined) {
+    await ctx.db.patch(signup._id, { confirmedReferrals });
+    return;
+  }
+  const score = waitlistScore(signup.waitlistNumber, confirmedReferrals);
+  await ctx.db.patch(signup._id, { confirmedReferrals, waitlistScore: score });
+  await moveScore(ctx, signup.waitlistScore, score);
+}
+
+async function generateUniqueReferralCode(ctx: MutationCtx): Promise<string> {
+  for (;;) {
+    const code = generateCode();
+    const taken = await ctx.db
+      .query("signups")
+      .withIndex("by_referral_code", (q) => q.eq("referralCode", code))
+      .first();
+    if (!taken) {
+      return code;
+    }
+  }
+}
+
+/**
+ * Fields that place a new signup on the waitlist
+ */
+export async function createWaitlistEntry(ctx: MutationCtx) {
+  const waitlistNumber = await incrementCounter(ctx, WAITLIST_COUNTER);
+  const score = waitlistScore(waitlistNumber, 0);
+  await incrementCounter(ctx, WAITLIST_SIZE_COUNTER);
+  await moveScore(ctx, undefined, score);
+  return {
+    referralCode: await generateUniqueReferralCode(ctx),
+    waitlistNumber,
+    waitlistScore: score,
+    confirmedReferrals: 0,
+  };
+}
+
+/**
+ * Backfill waitlist fields on signups created before the waitlist existed
+ *
+ * @returns The signup's referral code
+ */
+export async function ensureWaitlistEntry(
+  ctx: MutationCtx,
+  signup: Doc<"signups">
+): Promise<string> {
+  if (signup.referralCode) {
+    return signup.referralCode;
+  }
+  const entry = await createWaitlistEntry(ctx);
+  await ctx.db.patch(signup._id, entry);
+  return entry.referralCode;
+}
+
+/**
+ * Record a pending referral edge if `referralCode` belongs to someone
+ *
+ * @returns The referrer's ID, or undefined if the code is unknown
+ */
+export async function recordReferral(
+  ctx: MutationCtx,
+  referralCode: string,
+  refereeId: Id<"signups">
+): Promise<Id<"signups"> | undefined> {
+  const referrer = await ctx.db
+    .query("signups")
+    .withIndex("by_referral_code", (q) =>
+      q.eq("referralCode", referralCode.trim().toUpperCase())
+    )
+    .first();
+
+  if (!referrer || referrer._id === refereeId) {
+    return undefined;
+  }
+
+  await ctx.db.insert("referrals", {
+    referrerId: referrer._id,
+    refereeId,
+    status: "pending",
+  });
+
+  return referrer._id;
+}
+
+/**
+ * Credit the referrer once the referred signup confirms their email
+ */
+export async function confirmReferral(
+  ctx: MutationCtx,
+  refereeId: Id<"signups">
+) {
+  const referral = await ctx.db
+    .query("referrals")
+    .withIndex("by_referee", (q) => q.eq("refereeId", refereeId))
+    .first();
+
+  if (!referral || referral.status === "confirmed") {
+    return;
+  }
+
+  await ctx.db.patch(referral._id, {
+    status: "confirmed",
+    confirmedAt: Date.now(),
+  });
+
+  const referrer = await ctx.db.get(referral.referrerId);
+  if (referrer) {
+    await setConfirmedReferrals(
+      ctx,
+      referrer,
+      (referrer.confirmedReferrals ?? 0) + 1
+    );
+  }
+}
+
+/**
+ * Remove every referral edge touching a signup, taking back the credit its
+ * referrer got if the signup had confirmed
+ */
+async function deleteReferralEdges(
+  ctx: MutationCtx,
+  signupId: Id<"signups">
+) {
+  const asReferrer = await ctx.db
+    .query("referrals")
+    .withIndex("by_referrer", (q) => q.eq("referrerId", signupId))
+    .collect();
+  const asReferee = await ctx.db
+    .query("referrals")
+    .withIndex("by_referee", (q) => q.eq("refereeId", signupId))
+    .collect();
+
+  for (const referral of asReferee) {
+    if (referral.status !== "confirmed") continue;
+    const referrer = await ctx.db.get(referral.referrerId);
+    if (referrer) {
+      await setConfirmedReferrals(
+        ctx,
+        referrer,
+        Math.max(0, (referrer.confirmedReferrals ?? 0) - 1)
+      );
+    }
+  }
+
+  for (const referral of [...asReferrer, ...asReferee]) {
+    await ctx.db.delete(referral._id);
+  }
+}
+
+/**
+ * Take a signup that is about to be deleted off the waitlist
+ */
+export async function removeFromWaitlist(
+  ctx: MutationCtx,
+  signup: Doc<"signups">
+) {
+  await deleteReferralEdges(ctx, signup._id);
+  if (signup.waitlistScore !== undefined) {
+    await incrementCounter(ctx, WAITLIST_SIZE_COUNTER, -1);
+    await moveScore(ctx, signup.waitlistScore, undefined);
+  }
+}
@@ -0,0 +1,54 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { requireMonitorSecret } from "./lib/monitor";
+import {
+  SIGNUPS_BLOCKED_PREFIX,
+  SIGNUPS_BY_SOURCE_PREFIX,
+  SIGNUPS_DUPLICATE_COUNTER,
+  getCounter,
+  listCounters,
+} from "./lib/counters";
+
+/**
+ * Everything `/api/metrics` exposes, read from persisted data
+ *
+ * Check counts come from the daily rollups (kept indefinitely) and signup
+ * numbers from running counters, so values never reset with the server.
+ */
+export const getMetrics = query({
+  args: { secret: v.string() },
+  handler: async (ctx, args) => {
+    requireMonitorSecret(args.secret);
+
+    const daily = await ctx.db.query("checkDailyStats").collect();
+    const totals = new Map<string, { successes: number; failures: number }>();
+    for (const day of daily) {
+      const total = totals.get(day.check) ?? { successes: 0, failures: 0 };
+      total.successes += day.successes;
+      total.failures += day.total - day.successes;
+      totals.set(day.check, total);
+    }
+
+    const checks = await Promise.all(
+      [...totals].map(async ([name, total]) => {
+        const latest = await ctx.db
+          .query("checkResults")
+          .withIndex("by_check_time", (q) => q.eq("check", name))
+          .order("desc")
+          .first();
+        return {
+          name,
+          ...total,
+          lastResponseTime: latest?.responseTime ?? null,
+        };
+      })
+    );
+
+    return {
+      checks,
+      signupsBySource: await listCounters(ctx, SIGNUPS_BY_SOURCE_PREFIX),
+      duplicateSignups: await getCounter(ctx, SIGNUPS_DUPLICATE_COUNTER),
+      rejectedSignups: await listCounters(ctx, SIGNUPS_BLOCKED_PREFIX),
+    };
+  },
+});
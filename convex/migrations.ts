@@ -0,0 +1,395 @@
+import { internalMutation, type MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+import {
+  SIGNUPS_BY_SOURCE_PREFIX,
+  SIGNUPS_REBUILD_PREFIX,
+  SIGNUPS_REBUILD_SCANNED_TO,
+  decrementSignupSource,
+  incrementCounter,
+  listCounters,
+  setCounter,
+  signupSourceCounter,
+} from "./lib/counters";
+import { normalizeEmail } from "./lib/email";
+import { logger } from "./lib/logger";
+import {
+  WAITLIST_SIZE_COUNTER,
+  moveScore,
+  setConfirmedReferrals,
+  waitlistScore,
+} from "./lib/waitlist";
+
+/**
+ * One-off data migrations.
+ *
+ * Each migration processes one page per mutation and schedules itself for
+ * the next page, so it stays within Convex transaction limits regardless
+ * of table size. Start them from the dashboard or CLI, e.g.
+ * `bunx convex run migrations:normalizeEmails`.
+ */
+
+const BATCH_SIZE = 100;
+
+// When merging duplicates, the most restrictive status wins so an
+// unsubscribe is never undone by an older or newer duplicate
+const STATUS_PRIORITY: Record<NonNullable<Doc<"signups">["status"]>, number> = {
+  pending: 0,
+  confirmed: 1,
+  unsubscribed: 2,
+};
+
+function mergeStatus(a: Doc<"signups">, b: Doc<"signups">) {
+  // Rows without a status predate double opt-in and count as confirmed
+  const statusA = a.status ?? "confirmed";
+  const statusB = b.status ?? "confirmed";
+  return STATUS_PRIORITY[statusA] >= STATUS_PRIORITY[statusB] ? statusA : statusB;
+}
+
+function earliest(a: number | undefined, b: number | undefined) {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.min(a, b);
+}
+
+/**
+ * Move the duplicate's referral edges to the keeper
+ *
+ * Edges that would make the keeper refer itself, or give it a second
+ * referrer, are deleted instead, and the credit a confirmed one earned is
+ * taken back.
+ *
+ * @returns Confirmed referrals lost from the keeper's and duplicate's
+ *   combined credit
+ */
+async function mergeReferrals(
+  ctx: MutationCtx,
+  keeper: Doc<"signups">,
+  duplicate: Doc<"signups">
+): Promise<number> {
+  let lostCredit = 0;
+
+  const asReferrer = await ctx.db
+    .query("referrals")
+    .withIndex("by_referrer", (q) => q.eq("referrerId", duplicate._id))
+    .collect();
+  for (const referral of asReferrer) {
+    if (referral.refereeId === keeper._id) {
+      await ctx.db.delete(referral._id);
+      if (referral.status === "confirmed") lostCredit++;
+    } else {
+      await ctx.db.patch(referral._id, { referrerId: keeper._id });
+      await ctx.db.patch(referral.refereeId, { referredBy: keeper._id });
+    }
+  }
+
+  const asReferee = await ctx.db
+    .query("referrals")
+    .withIndex("by_referee", (q) => q.eq("refereeId", duplicate._id))
+    .collect();
+  for (const referral of asReferee) {
+    if (referral.referrerId === keeper._id) {
+      await ctx.db.delete(referral._id);
+      if (referral.status === "confirmed") lostCredit++;
+    } else if (keeper.referredBy && keeper.referredBy !== duplicate._id) {
+      // Already on the list through someone else's link
+      await ctx.db.delete(referral._id);
+      const referrer = await ctx.db.get(referral.referrerId);
+      if (referral.status === "confirmed" && referrer) {
+        await setConfirmedReferrals(
+          ctx,
+          referrer,
+          Math.max(0, (referrer.confirmedReferrals ?? 0) - 1)
+        );
+      }
+    } else {
+      await ctx.db.patch(referral._id, { refereeId: keeper._id });
+    }
+  }
+
+  return lostCredit;
+}
+
+/**
+ * Fold `duplicate` into `keeper`, re-pointing related rows, then delete it
+ *
+ * The earlier of the two waitlist places survives, together with the
+ * share code issued with it; the other code stops resolving. Referral
+ * credit is combined, less referrals between the two rows.
+ */
+async function mergeSignups(
+  ctx: MutationCtx,
+  keeper: Doc<"signups">,
+  duplicate: Doc<"signups">
+) {
+  const lostCredit = await mergeReferrals(ctx, keeper, duplicate);
+  const confirmedReferrals = Math.max(
+    0,
+    (keeper.confirmedReferrals ?? 0) +
+      (duplicate.confirmedReferrals ?? 0) -
+      lostCredit
+  );
+
+  const place =
+    duplicate.waitlistNumber !== undefined &&
+    (keeper.waitlistNumber === undefined ||
+      duplicate.waitlistNumber < keeper.waitlistNumber)
+      ? duplicate
+      : keeper;
+  const score =
+    place.waitlistNumber !== undefined
+      ? waitlistScore(place.waitlistNumber, confirmedReferrals)
+      : undefined;
+
+  // The duplicate can't stay the keeper's referrer once it is gone
+  const referredBy =
+    keeper.referredBy === duplicate._id ? undefined : keeper.referredBy;
+  await ctx.db.patch(keeper._id, {
+    status: mergeStatus(keeper, duplicate),
+    confirmedAt: earliest(keeper.confirmedAt, duplicate.confirmedAt),
+    unsubscribedAt: earliest(keeper.unsubscribedAt, duplicate.unsubscribedAt),
+    attribution: keeper.attribution ?? duplicate.attribution,
+    firstTouch: keeper.firstTouch ?? duplicate.firstTouch,
+    referredBy: referredBy ?? duplicate.referredBy,
+    referralCode: place.referralCode,
+    waitlistNumber: place.waitlistNumber,
+    waitlistScore: score,
+    confirmedReferrals,
+    isTest: keeper.isTest || duplicate.isTest || undefined,
+  });
+
+  const tokens = await ctx.db
+    .query("confirmationTokens")
+    .withIndex("by_signup", (q) => q.eq("signupId", duplicate._id))
+    .collect();
+  for (const token of tokens) {
+    await ctx.db.patch(token._id, { signupId: keeper._id });
+  }
+
+  const queued = await ctx.db
+    .query("signupNotificationQueue")
+    .withIndex("by_signup", (q) => q.eq("signupId", duplicate._id))
+    .collect();
+  for (const entry of queued) {
+    await ctx.db.delete(entry._id);
+  }
+
+  // The keeper's own choices win; otherwise adopt the duplicate's
+  const keeperPreferences = await ctx.db
+    .query("notificationPreferences")
+    .withIndex("by_signup", (q) => q.eq("signupId", keeper._id))
+    .first();
+  const duplicatePreferences = await ctx.db
+    .query("notificationPreferences")
+    .withIndex("by_signup", (q) => q.eq("signupId", duplicate._id))
+    .collect();
+  for (const entry of duplicatePreferences) {
+    if (keeperPreferences) {
+      await ctx.db.delete(entry._id);
+    } else {
+      await ctx.db.patch(entry._id, { signupId: keeper._id });
+    }
+  }
+
+  await ctx.db.delete(duplicate._id);
+  await decrementSignupSource(ctx, duplicate);
+
+  // Two waitlist entries become at most one
+  await moveScore(ctx, keeper.waitlistScore, score);
+  await moveScore(ctx, duplicate.waitlistScore, undefined);
+  const size =
+    (score !== undefined ? 1 : 0) -
+    (keeper.waitlistScore !== undefined ? 1 : 0) -
+    (duplicate.waitlistScore !== undefined ? 1 : 0);
+  if (size !== 0) {
+    await incrementCounter(ctx, WAITLIST_SIZE_COUNTER, size);
+  }
+}
+
+/**
+ * Backfill `normalizedEmail` on every signup and merge signups that share
+ * a canonical address into the earliest one
+ */
+export const normalizeEmails = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    merged: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("signups")
+      .order("asc")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let merged = args.merged ?? 0;
+
+    for (const { _id } of page.page) {
+      // May already have been merged away earlier in this batch
+      const signup = await ctx.db.get(_id);
+      if (!signup) continue;
+
+      const normalizedEmail = normalizeEmail(signup.email);
+      if (signup.normalizedEmail !== normalizedEmail) {
+        await ctx.db.patch(signup._id, { normalizedEmail });
+      }
+
+      const group = await ctx.db
+        .query("signups")
+        .withIndex("by_normalized_email", (q) =>
+          q.eq("normalizedEmail", normalizedEmail)
+        )
+        .collect();
+      if (group.length < 2) continue;
+
+      // Index order within equal keys is by creation time: oldest first
+      const [keeper, ...duplicates] = group;
+      for (const duplicate of duplicates) {
+        const current = await ctx.db.get(keeper._id);
+        if (!current) break;
+        await mergeSignups(ctx, current, duplicate);
+        merged++;
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.normalizeEmails, {
+        cursor: page.continueCursor,
+        merged,
+      });
+      return { done: false, merged };
+    }
+
+    logger.info("migration.completed", { migration: "normalizeEmails", merged });
+    return { done: true, merged };
+  },
+});
+
+/**
+ * Delete the counters a per-source rebuild keeps while it runs
+ */
+async function clearSignupRebuild(ctx: MutationCtx) {
+  const counters = await ctx.db
+    .query("counters")
+    .withIndex("by_name", (q) =>
+      q
+        .gte("name", SIGNUPS_REBUILD_PREFIX)
+        .lt("name", `${SIGNUPS_REBUILD_PREFIX}\uffff`)
+    )
+    .collect();
+  const scannedTo = await ctx.db
+    .query("counters")
+    .withIndex("by_name", (q) => q.eq("name", SIGNUPS_REBUILD_SCANNED_TO))
+    .first();
+
+  for (const counter of scannedTo ? [...counters, scannedTo] : counters) {
+    await ctx.db.delete(counter._id);
+  }
+}
+
+/**
+ * Rebuild the per-source signup counters behind /api/metrics
+ *
+ * Totals are tallied under SIGNUPS_REBUILD_PREFIX while the live counters
+ * keep running, then swapped in by the mutation that reads the last page,
+ * so signups created during the run are counted by the scan. Deleting a
+ * row the scan has already passed takes it off the rebuilt total too (see
+ * `decrementSignupSource`).
+ */
+export const backfillSignupCounters = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    if (!args.cursor) {
+      // Discard whatever an earlier, unfinished run left behind
+      await clearSignupRebuild(ctx);
+    }
+
+    const page = await ctx.db
+      .query("signups")
+      .order("asc")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    const bySource = new Map<string, number>();
+    for (const signup of page.page) {
+      if (signup.isSynthetic) continue;
+      const name = `${SIGNUPS_REBUILD_PREFIX}${signup.source ?? "unknown"}`;
+      bySource.set(name, (bySource.get(name) ?? 0) + 1);
+    }
+    for (const [name, count] of bySource) {
+      await incrementCounter(ctx, name, count);
+    }
+    const last = page.page.at(-1);
+    if (last) {
+      await setCounter(ctx, SIGNUPS_REBUILD_SCANNED_TO, last._creationTime);
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillSignupCounters, {
+        cursor: page.continueCursor,
+      });
+      return { done: false };
+    }
+
+    const live = await listCounters(ctx, SIGNUPS_BY_SOURCE_PREFIX);
+    const rebuilt = await listCounters(ctx, SIGNUPS_REBUILD_PREFIX);
+    for (const source of new Set([...Object.keys(live), ...Object.keys(rebuilt)])) {
+      await setCounter(ctx, signupSourceCounter(source), rebuilt[source] ?? 0);
+    }
+    await clearSignupRebuild(ctx);
+
+    logger.info("migration.completed", { migration: "backfillSignupCounters" });
+    return { done: true };
+  },
+});
+
+/**
+ * Backfill `waitlistScore` on signups placed before scores existed
+ *
+ * Signups that already have a score are on the waitlist size counter and
+ * in the score buckets, so they are skipped; each scored row is added to
+ * both in the same mutation that scores it. Safe to re-run, and to run
+ * alongside live signups.
+ */
+export const backfillWaitlistScores = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("signups")
+      .order("asc")
+      .paginate({ numItems: BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let scored = 0;
+    for (const signup of page.page) {
+      if (
+        signup.waitlistNumber === undefined ||
+        signup.waitlistScore !== undefined
+      ) {
+        continue;
+      }
+      const score = waitlistScore(
+        signup.waitlistNumber,
+        signup.confirmedReferrals ?? 0
+      );
+      await ctx.db.patch(signup._id, { waitlistScore: score });
+      await moveScore(ctx, undefined, score);
+      scored++;
+    }
+    if (scored > 0) {
+      await incrementCounter(ctx, WAITLIST_SIZE_COUNTER, scored);
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillWaitlistScores, {
+        cursor: page.continueCursor,
+      });
+      return { done: false };
+    }
+
+    logger.info("migration.completed", { migration: "backfillWaitlistScores" });
+    return { done: true };
+  },
+});
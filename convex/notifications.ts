@@ -0,0 +1,227 @@
+import {
+  internalAction,
+  internalMutation,
+  type MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { logger } from "./lib/logger";
+
+/**
+ * Slack notifications for new signups.
+ *
+ * New signups are queued and flushed as a single message once the batching
+ * window closes, so a launch-day burst produces one digest instead of a
+ * ping per signup. Delivery runs in a scheduled action: a failing webhook
+ * never affects the signup mutation that queued it, and the signups in an
+ * undelivered digest are queued again for the next one.
+ */
+
+// Default batching window; override with SLACK_DIGEST_WINDOW_SECONDS
+const DEFAULT_DIGEST_WINDOW_MS = 2 * 60 * 1000;
+
+// A flush this far past its due time is assumed lost and is rescheduled
+const FLUSH_GRACE_MS = 60 * 1000;
+
+// Signups listed individually in a digest before collapsing to a count
+const MAX_LISTED_SIGNUPS = 10;
+
+interface SlackMessage {
+  text: string;
+  blocks: Array<Record<string, unknown>>;
+}
+
+interface QueuedSignup {
+  signupId: Id<"signups">;
+  email: string;
+  source?: string;
+  utmCampaign?: string;
+}
+
+function getDigestWindowMs(): number {
+  const seconds = Number(process.env.SLACK_DIGEST_WINDOW_SECONDS);
+  return Number.isFinite(seconds) && seconds >= 0
+    ? seconds * 1000
+    : DEFAULT_DIGEST_WINDOW_MS;
+}
+
+/**
+ * Queue a signup for the next Slack digest, opening a batching window if
+ * none is open. Called from `createSignup` for new, non-duplicate signups.
+ */
+export async function enqueueSignupNotification(
+  ctx: MutationCtx,
+  signupId: Id<"signups">
+) {
+  await ctx.db.insert("signupNotificationQueue", { signupId });
+
+  // Mutations are serializable, so exactly one signup per window schedules
+  // the flush. A marker still present well after its due time means the
+  // flush failed before claiming the queue; schedule another so queued
+  // signups aren't stranded.
+  const now = Date.now();
+  const scheduled = await ctx.db.query("signupDigestSchedule").first();
+  if (scheduled && scheduled.runAt + FLUSH_GRACE_MS > now) {
+    return;
+  }
+
+  const windowMs = getDigestWindowMs();
+  await ctx.scheduler.runAfter(
+    windowMs,
+    internal.notifications.flushSignupDigest,
+    {}
+  );
+  if (scheduled) {
+    logger.warn("notify.digest_rescheduled", { dueAt: scheduled.runAt });
+    await ctx.db.patch(scheduled._id, { runAt: now + windowMs });
+  } else {
+    await ctx.db.insert("signupDigestSchedule", { runAt: now + windowMs });
+  }
+}
+
+/**
+ * Drain the queue, returning the signups that still exist
+ *
+ * The flush puts them back with `requeueSignups` if Slack doesn't take
+ * the digest.
+ */
+export const claimQueuedSignups = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    // Signups queued from now on open a new window
+    const markers = await ctx.db.query("signupDigestSchedule").collect();
+    for (const marker of markers) {
+      await ctx.db.delete(marker._id);
+    }
+
+    const queued = await ctx.db.query("signupNotificationQueue").collect();
+    const signups: QueuedSignup[] = [];
+
+    for (const entry of queued) {
+      await ctx.db.delete(entry._id);
+      const signup = await ctx.db.get(entry.signupId);
+      // Erased in the meantime (or synthetic): leave it out of the digest
+      if (signup && !signup.isSynthetic) {
+        signups.push({
+          signupId: signup._id,
+          email: signup.email,
+          source: signup.source,
+          utmCampaign: signup.attribution?.utmCampaign,
+        });
+      }
+    }
+
+    return signups;
+  },
+});
+
+/**
+ * Queue signups from an undelivered digest again, for the next window
+ */
+export const requeueSignups = internalMutation({
+  args: { signupIds: v.array(v.id("signups")) },
+  handler: async (ctx, args) => {
+    for (const signupId of args.signupIds) {
+      // Skip signups erased since they were claimed
+      if (await ctx.db.get(signupId)) {
+        await enqueueSignupNotification(ctx, signupId);
+      }
+    }
+  },
+});
+
+/**
+ * Format queued signups as a Slack Block Kit message
+ */
+function formatSignupDigest(signups: QueuedSignup[]): SlackMessage {
+  const count = signups.length;
+  const title =
+    count === 1 ? "🎉 New Gist GEO signup" : `🎉 ${count} new Gist GEO signups`;
+
+  const lines = signups.slice(0, MAX_LISTED_SIGNUPS).map((signup) => {
+    const details = [signup.source, signup.utmCampaign && `campaign: ${signup.utmCampaign}`]
+      .filter(Boolean)
+      .join(", ");
+    return `• ${signup.email}${details ? ` _(${details})_` : ""}`;
+  });
+  if (count > MAX_LISTED_SIGNUPS) {
+    lines.push(`…and ${count - MAX_LISTED_SIGNUPS} more`);
+  }
+
+  return {
+    text: title,
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: title, emoji: true },
+      },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: lines.join("\n") },
+      },
+    ],
+  };
+}
+
+/**
+ * Post a digest to the Slack webhook
+ *
+ * @returns Whether Slack accepted it
+ */
+async function postDigest(
+  webhook: string,
+  signups: QueuedSignup[]
+): Promise<boolean> {
+  try {
+    const response = await fetch(webhook, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(formatSignupDigest(signups)),
+    });
+
+    if (!response.ok) {
+      logger.error("notify.digest_failed", {
+        signups: signups.length,
+        status: response.status,
+        body: await response.text(),
+      });
+      return false;
+    }
+
+    logger.info("notify.digest_sent", { signups: signups.length });
+    return true;
+  } catch (error) {
+    logger.error("notify.digest_failed", { signups: signups.length, error });
+    return false;
+  }
+}
+
+export const flushSignupDigest = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const signups = await ctx.runMutation(
+      internal.notifications.claimQueuedSignups,
+      {}
+    );
+
+    if (signups.length === 0) {
+      return;
+    }
+
+    const webhook = process.env.SLACK_WEBHOOK_URL;
+    if (!webhook) {
+      logger.info("notify.digest_skipped", {
+        reason: "webhook_not_configured",
+        signups: signups.length,
+      });
+      return;
+    }
+
+    if (!(await postDigest(webhook, signups))) {
+      await ctx.runMutation(internal.notifications.requeueSignups, {
+        signupIds: signups.map((signup) => signup.signupId),
+      });
+    }
+  },
+});
@@ -0,0 +1,67 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { getSignupFromLinkToken } from "./lib/links";
+import {
+  frequencyValidator,
+  getPreferences,
+  topicsValidator,
+} from "./lib/preferences";
+
+/**
+ * Mask an address for display, e.g. "j***@acme.com"
+ */
+function maskEmail(email: string): string {
+  const at = email.lastIndexOf("@");
+  return `${email.slice(0, 1)}***${email.slice(at)}`;
+}
+
+export const getMyPreferences = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const { signup } = await getSignupFromLinkToken(ctx, args.token);
+    if (!signup) {
+      return null;
+    }
+
+    return {
+      email: maskEmail(signup.email),
+      unsubscribed: signup.status === "unsubscribed",
+      ...(await getPreferences(ctx, signup._id)),
+    };
+  },
+});
+
+export const updateMyPreferences = mutation({
+  args: {
+    token: v.string(),
+    topics: topicsValidator,
+    frequency: frequencyValidator,
+  },
+  handler: async (ctx, args) => {
+    const { signup } = await getSignupFromLinkToken(ctx, args.token);
+    if (!signup) {
+      return { status: "invalid" as const };
+    }
+
+    const existing = await ctx.db
+      .query("notificationPreferences")
+      .withIndex("by_signup", (q) => q.eq("signupId", signup._id))
+      .first();
+    const preferences = {
+      topics: args.topics,
+      frequency: args.frequency,
+      updatedAt: Date.now(),
+    };
+
+    if (existing) {
+      await ctx.db.patch(existing._id, preferences);
+    } else {
+      await ctx.db.insert("notificationPreferences", {
+        signupId: signup._id,
+        ...preferences,
+      });
+    }
+
+    return { status: "saved" as const };
+  },
+});
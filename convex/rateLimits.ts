@@ -0,0 +1,25 @@
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+
+/**
+ * Delete a rate-limit bucket once it has refilled completely
+ *
+ * Scheduled by `consumeRateLimit` when it creates the bucket, so idle keys
+ * are cleaned up without the signup path ever scanning for them. A bucket
+ * used again in the meantime is full later, and the deletion moves there.
+ */
+export const expire = internalMutation({
+  args: { bucketId: v.id("rateLimits") },
+  handler: async (ctx, args) => {
+    const bucket = await ctx.db.get(args.bucketId);
+    if (!bucket) {
+      return;
+    }
+    if (bucket.fullAt > Date.now()) {
+      await ctx.scheduler.runAt(bucket.fullAt, internal.rateLimits.expire, args);
+      return;
+    }
+    await ctx.db.delete(bucket._id);
+  },
+});
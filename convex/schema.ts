@@ -1,9 +1,240 @@
+import { authTables } from "@convex-dev/auth/server";
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { attributionValidator } from "./lib/attribution";
+import { profileValidator } from "./lib/profile";
+import { snapshotReportValidator } from "./lib/snapshot";
+import { frequencyValidator, topicsValidator } from "./lib/preferences";
+
+// Roles that unlock internal functionality; users without one have no access
+export const roleValidator = v.literal("admin");
+
+// Double opt-in lifecycle of a signup
+export const signupStatusValidator = v.union(
+  v.literal("pending"),
+  v.literal("confirmed"),
+  v.literal("unsubscribed")
+);
+
+// One check's outcome within a cron run
+export const cronRunCheckValidator = v.object({
+  check: v.string(),
+  success: v.boolean(),
+  status: v.optional(v.number()),
+  responseTime: v.optional(v.number()),
+  error: v.optional(v.string()),
+  attempts: v.number(),
+});
+
+// Which incident notice a cron run sent
+export const cronRunNoticeValidator = v.union(
+  v.literal("none"),
+  v.literal("opened"),
+  v.literal("still_failing"),
+  v.literal("recovered")
+);
 
 export default defineSchema({
+  ...authTables,
+
+  // Convex Auth users, extended with a role
+  users: defineTable({
+    name: v.optional(v.string()),
+    image: v.optional(v.string()),
+    email: v.optional(v.string()),
+    emailVerificationTime: v.optional(v.number()),
+    phone: v.optional(v.string()),
+    phoneVerificationTime: v.optional(v.number()),
+    isAnonymous: v.optional(v.boolean()),
+    role: v.optional(roleValidator),
+  })
+    .index("email", ["email"])
+    .index("phone", ["phone"]),
+
   signups: defineTable({
+    // Address as typed, and its canonical form (lib/email.ts) used for dedupe
     email: v.string(),
+    normalizedEmail: v.optional(v.string()),
     source: v.optional(v.string()),
-  }).index("by_email", ["email"]),
+    // Double opt-in lifecycle; rows created before confirmation existed have no status
+    status: v.optional(signupStatusValidator),
+    confirmedAt: v.optional(v.number()),
+    unsubscribedAt: v.optional(v.number()),
+    // Marketing attribution at signup time and at the start of the visit
+    attribution: v.optional(attributionValidator),
+    firstTouch: v.optional(attributionValidator),
+    // Referral waitlist: share code, place in line and referral credit
+    referralCode: v.optional(v.string()),
+    waitlistNumber: v.optional(v.number()),
+    // waitlistNumber less the referral boost; the queue is ordered by it
+    waitlistScore: v.optional(v.number()),
+    confirmedReferrals: v.optional(v.number()),
+    referredBy: v.optional(v.id("signups")),
+    // Optional progressive-profiling answers given after signup
+    profile: v.optional(profileValidator),
+    // Flagged from the admin dashboard as internal/test data
+    isTest: v.optional(v.boolean()),
+    // Written (and removed) by the health-check cron's synthetic signup;
+    // never exported, counted or notified
+    isSynthetic: v.optional(v.boolean()),
+  })
+    .index("by_email", ["email"])
+    .index("by_normalized_email", ["normalizedEmail"])
+    .index("by_source", ["source"])
+    .index("by_referral_code", ["referralCode"])
+    .index("by_waitlist_score", ["waitlistScore", "waitlistNumber"])
+    .index("by_utm_campaign", ["attribution.utmCampaign"])
+    .index("by_utm_source", ["attribution.utmSource"])
+    .index("by_first_touch_campaign", ["firstTouch.utmCampaign"]),
+
+  // Single-use tokens emailed to confirm a pending signup
+  confirmationTokens: defineTable({
+    signupId: v.id("signups"),
+    token: v.string(),
+    expiresAt: v.number(),
+  })
+    .index("by_token", ["token"])
+    .index("by_signup", ["signupId"]),
+
+  // What each subscriber wants to hear about (see lib/preferences.ts)
+  notificationPreferences: defineTable({
+    signupId: v.id("signups"),
+    topics: topicsValidator,
+    frequency: frequencyValidator,
+    updatedAt: v.number(),
+  }).index("by_signup", ["signupId"]),
+
+  // Who referred whom; confirmed once the referred signup confirms their email
+  referrals: defineTable({
+    referrerId: v.id("signups"),
+    refereeId: v.id("signups"),
+    status: v.union(v.literal("pending"), v.literal("confirmed")),
+    confirmedAt: v.optional(v.number()),
+  })
+    .index("by_referrer", ["referrerId"])
+    .index("by_referee", ["refereeId"]),
+
+  // How many waitlist scores fall in each score range, at several range
+  // widths, so a queue position is a handful of reads (see lib/waitlist.ts)
+  waitlistBuckets: defineTable({
+    level: v.number(),
+    bucket: v.number(),
+    count: v.number(),
+  }).index("by_level_bucket", ["level", "bucket"]),
+
+  // Signups waiting for the next Slack digest (see notifications.ts)
+  signupNotificationQueue: defineTable({
+    signupId: v.id("signups"),
+  }).index("by_signup", ["signupId"]),
+
+  // When the pending digest flush is due; at most one row, removed when the
+  // flush claims the queue
+  signupDigestSchedule: defineTable({
+    runAt: v.number(),
+  }),
+
+  // Token buckets for rate limiting (see lib/rateLimit.ts)
+  rateLimits: defineTable({
+    key: v.string(),
+    tokens: v.number(),
+    updatedAt: v.number(),
+    // When the bucket is full again and can be deleted
+    fullAt: v.number(),
+  }).index("by_key", ["key"]),
+
+  // Signup attempts rejected by abuse protection, kept for review. Only the
+  // domain of the address is stored.
+  blockedSignupAttempts: defineTable({
+    reason: v.union(
+      v.literal("global_rate_limit"),
+      v.literal("honeypot"),
+      v.literal("ip_rate_limit"),
+      v.literal("too_fast")
+    ),
+    emailDomain: v.optional(v.string()),
+  }).index("by_reason", ["reason"]),
+
+  // Named running totals (see lib/counters.ts)
+  counters: defineTable({
+    name: v.string(),
+    value: v.number(),
+  }).index("by_name", ["name"]),
+
+  // Tombstones for erased signups: a hash of the address (never the address
+  // itself) plus when and how the erasure happened, as a compliance record
+  erasures: defineTable({
+    emailHash: v.string(),
+    erasedAt: v.number(),
+    requestedVia: v.union(v.literal("subscriber"), v.literal("admin")),
+  }).index("by_email_hash", ["emailHash"]),
+
+  // Cached GEO snapshot reports, one per domain
+  snapshots: defineTable({
+    domain: v.string(),
+    provider: v.string(),
+    report: snapshotReportValidator,
+    generatedAt: v.number(),
+  }).index("by_domain", ["domain"]),
+
+  // Health-check outages: opened on the first failing cron run, resolved
+  // on the first passing one; `lastNotifiedAt` throttles repeat alerts
+  incidents: defineTable({
+    status: v.union(v.literal("open"), v.literal("resolved")),
+    openedAt: v.number(),
+    lastNotifiedAt: v.number(),
+    resolvedAt: v.optional(v.number()),
+    failedUrls: v.array(v.string()),
+  }).index("by_status", ["status"]),
+
+  // Raw per-check outcomes of each cron run, kept for RAW_RETENTION_DAYS
+  // (lib/uptime.ts) and folded into `checkDailyStats` as they arrive
+  checkResults: defineTable({
+    check: v.string(),
+    success: v.boolean(),
+    status: v.optional(v.number()),
+    responseTime: v.optional(v.number()),
+    error: v.optional(v.string()),
+    checkedAt: v.number(),
+  })
+    .index("by_check_time", ["check", "checkedAt"])
+    .index("by_checked_at", ["checkedAt"]),
+
+  // Per-check daily rollups (UTC days), kept indefinitely for uptime history
+  checkDailyStats: defineTable({
+    check: v.string(),
+    day: v.string(),
+    total: v.number(),
+    successes: v.number(),
+    // Sum over successful results, for average latency
+    totalResponseTime: v.number(),
+  })
+    .index("by_check_day", ["check", "day"])
+    .index("by_day", ["day"]),
+
+  // One row per completed (non-dry) health-check cron run, kept for
+  // RAW_RETENTION_DAYS; the latest successful one tells /api/health the
+  // cron is alive
+  cronRuns: defineTable({
+    runId: v.string(),
+    startedAt: v.number(),
+    durationMs: v.number(),
+    success: v.boolean(),
+    results: v.array(cronRunCheckValidator),
+    notice: cronRunNoticeValidator,
+    // Channels the notice was delivered to, and those that failed
+    alertsSent: v.array(v.string()),
+    alertsFailed: v.array(v.string()),
+  })
+    .index("by_started_at", ["startedAt"])
+    .index("by_success_started_at", ["success", "startedAt"]),
+
+  // Open expiry warning per TLS host; keyed on the certificate's expiry so
+  // a renewed certificate starts over, and removed once it is renewed
+  certificateWarnings: defineTable({
+    host: v.string(),
+    validTo: v.number(),
+    // Smallest "days remaining" threshold already announced
+    threshold: v.number(),
+    notifiedAt: v.number(),
+  }).index("by_host", ["host"]),
 });
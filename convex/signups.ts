@@ -1,32 +1,762 @@
-import { mutation } from "./_generated/server";
-import { v } from "convex/values";
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { paginationOptsValidator } from "convex/server";
+import { ConvexError, v } from "convex/values";
+import { enqueueSignupNotification } from "./notifications";
+import { signupStatusValidator } from "./schema";
+import { requireAdmin, type AuthErrorData } from "./lib/admin";
+import { attributionValidator, sanitizeAttribution } from "./lib/attribution";
+import {
+  SIGNUPS_BLOCKED_PREFIX,
+  SIGNUPS_DUPLICATE_COUNTER,
+  decrementSignupSource,
+  incrementCounter,
+  signupSourceCounter,
+} from "./lib/counters";
+import { isDisposableEmail } from "./lib/disposable";
+import { isValidEmail, normalizeEmail } from "./lib/email";
+import type { SignupErrorData } from "./lib/errors";
+import {
+  createProfileToken,
+  getSignupFromLinkToken,
+  getSignupFromProfileToken,
+} from "./lib/links";
+import {
+  SYNTHETIC_SIGNUP_EMAIL,
+  isSyntheticSignupEmail,
+  requireMonitorSecret,
+} from "./lib/monitor";
+import {
+  aiEngineValidator,
+  normalizeCompanyDomain,
+  sanitizeProfile,
+} from "./lib/profile";
+import { consumeRateLimit, rateLimitFromEnv } from "./lib/rateLimit";
+import { createSnapshotUnlockToken } from "./lib/snapshot";
+import {
+  constantTimeEqual,
+  generateToken,
+  hmacHex,
+} from "./lib/tokens";
+import {
+  confirmReferral,
+  createWaitlistEntry,
+  ensureWaitlistEntry,
+  recordReferral,
+  removeFromWaitlist,
+} from "./lib/waitlist";
 
+// Confirmation links stay valid for 48 hours
+const CONFIRMATION_TOKEN_TTL_MS = 48 * 60 * 60 * 1000;
+
+// Repeat submissions re-send the confirmation at most this often per signup
+const CONFIRMATION_RESEND_COOLDOWN_MS = 10 * 60 * 1000;
+
+// Abuse protection defaults; override with SIGNUP_IP_RATE_LIMIT and
+// SIGNUP_GLOBAL_RATE_LIMIT ("<count>/<seconds>") and SIGNUP_MIN_SUBMIT_MS
+const DEFAULT_IP_RATE_LIMIT = { capacity: 10, windowMs: 60 * 60 * 1000 };
+const DEFAULT_GLOBAL_RATE_LIMIT = { capacity: 120, windowMs: 60 * 1000 };
+const DEFAULT_MIN_SUBMIT_MS = 1500;
+
+type BlockReason = Doc<"blockedSignupAttempts">["reason"];
+
+/**
+ * Record a blocked signup attempt for later review
+ */
+async function recordBlockedAttempt(
+  ctx: MutationCtx,
+  reason: BlockReason,
+  email: string
+) {
+  await ctx.db.insert("blockedSignupAttempts", {
+    reason,
+    emailDomain: normalizeEmail(email).split("@")[1],
+  });
+  await incrementCounter(ctx, `${SIGNUPS_BLOCKED_PREFIX}${reason}`);
+}
+
+/**
+ * Rate limits and bot checks run before a signup is considered
+ *
+ * The per-address limit is keyed on the IP that `/api/signup` saw, which
+ * the visitor can't choose; the global limit is a backstop for traffic
+ * spread over many addresses. The honeypot and timing come from the form.
+ *
+ * @returns Why the attempt should be blocked, or null if it may proceed
+ */
+async function checkAbuse(
+  ctx: MutationCtx,
+  args: {
+    email: string;
+    clientIp?: string;
+    honeypot?: string;
+    elapsedMs?: number;
+  }
+): Promise<BlockReason | null> {
+  // Bots fill in every field, including the one humans never see
+  if (args.honeypot) {
+    return "honeypot";
+  }
+
+  const minSubmitMs = Number(
+    process.env.SIGNUP_MIN_SUBMIT_MS ?? DEFAULT_MIN_SUBMIT_MS
+  );
+  if (args.elapsedMs !== undefined && args.elapsedMs < minSubmitMs) {
+    return "too_fast";
+  }
+
+  // The health-check cron submits the reserved address from wherever it runs
+  if (
+    !isSyntheticSignupEmail(args.email) &&
+    !(await consumeRateLimit(
+      ctx,
+      // Requests without a known IP share one bucket
+      `signup:ip:${args.clientIp ?? "unknown"}`,
+      rateLimitFromEnv("SIGNUP_IP_RATE_LIMIT", DEFAULT_IP_RATE_LIMIT)
+    ))
+  ) {
+    return "ip_rate_limit";
+  }
+
+  if (
+    !(await consumeRateLimit(
+      ctx,
+      "signup:global",
+      rateLimitFromEnv("SIGNUP_GLOBAL_RATE_LIMIT", DEFAULT_GLOBAL_RATE_LIMIT)
+    ))
+  ) {
+    return "global_rate_limit";
+  }
+
+  return null;
+}
+
+// What the visitor sees for each block reason (honeypot hits get a fake success)
+const BLOCK_ERRORS: Record<Exclude<BlockReason, "honeypot">, SignupErrorData> = {
+  ip_rate_limit: {
+    code: "RATE_LIMITED",
+    message: "Too many attempts. Please try again later.",
+  },
+  global_rate_limit: {
+    code: "RATE_LIMITED",
+    message:
+      "We're getting a lot of signups right now. Please try again in a minute.",
+  },
+  too_fast: {
+    code: "TOO_FAST",
+    message: "That was quick! Please try again.",
+  },
+};
+
+/**
+ * Replace any outstanding confirmation token for a signup with a fresh one
+ * and schedule the confirmation email.
+ *
+ * Skipped while the last token is younger than the re-send cooldown, so
+ * resubmitting someone else's address can't flood their inbox.
+ */
+async function issueConfirmationToken(
+  ctx: MutationCtx,
+  signupId: Id<"signups">,
+  email: string
+) {
+  const outstanding = await ctx.db
+    .query("confirmationTokens")
+    .withIndex("by_signup", (q) => q.eq("signupId", signupId))
+    .collect();
+  const cooldownStart = Date.now() - CONFIRMATION_RESEND_COOLDOWN_MS;
+  if (outstanding.some((token) => token._creationTime > cooldownStart)) {
+    return;
+  }
+  for (const token of outstanding) {
+    await ctx.db.delete(token._id);
+  }
+
+  const token = generateToken();
+  await ctx.db.insert("confirmationTokens", {
+    signupId,
+    token,
+    expiresAt: Date.now() + CONFIRMATION_TOKEN_TTL_MS,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.emails.sendConfirmationEmail, {
+    signupId,
+    email,
+    token,
+  });
+}
+
+function getErasureHashSecret(): string {
+  const secret = process.env.ERASURE_HASH_SECRET;
+  // Fail closed: an unkeyed hash can be reversed with a list of likely addresses
+  if (!secret) {
+    throw new Error("ERASURE_HASH_SECRET not configured");
+  }
+  return secret;
+}
+
+/**
+ * Hash an address for erasure tombstones so erased emails are never stored
+ */
+async function hashEmail(email: string): Promise<string> {
+  return hmacHex(normalizeEmail(email), getErasureHashSecret());
+}
+
+/**
+ * Whether an address was previously erased and must not be re-added
+ */
+async function isErased(ctx: QueryCtx, email: string): Promise<boolean> {
+  const emailHash = await hashEmail(email);
+  const tombstone = await ctx.db
+    .query("erasures")
+    .withIndex("by_email_hash", (q) => q.eq("emailHash", emailHash))
+    .first();
+  return tombstone !== null;
+}
+
+/**
+ * Find the signup for an address, matching on its canonical form
+ */
+async function findSignupByEmail(ctx: QueryCtx, email: string) {
+  const byNormalized = await ctx.db
+    .query("signups")
+    .withIndex("by_normalized_email", (q) =>
+      q.eq("normalizedEmail", normalizeEmail(email))
+    )
+    .first();
+
+  // Rows not yet backfilled by migrations:normalizeEmails only match exactly
+  return (
+    byNormalized ??
+    (await ctx.db
+      .query("signups")
+      .withIndex("by_email", (q) => q.eq("email", email.trim()))
+      .first())
+  );
+}
+
+/**
+ * Delete a signup and everything linked to it
+ */
+async function deleteSignupRecord(ctx: MutationCtx, signup: Doc<"signups">) {
+  const tokens = await ctx.db
+    .query("confirmationTokens")
+    .withIndex("by_signup", (q) => q.eq("signupId", signup._id))
+    .collect();
+  for (const token of tokens) {
+    await ctx.db.delete(token._id);
+  }
+
+  const queued = await ctx.db
+    .query("signupNotificationQueue")
+    .withIndex("by_signup", (q) => q.eq("signupId", signup._id))
+    .collect();
+  for (const entry of queued) {
+    await ctx.db.delete(entry._id);
+  }
+
+  const preferences = await ctx.db
+    .query("notificationPreferences")
+    .withIndex("by_signup", (q) => q.eq("signupId", signup._id))
+    .collect();
+  for (const entry of preferences) {
+    await ctx.db.delete(entry._id);
+  }
+
+  await removeFromWaitlist(ctx, signup);
+  await ctx.db.delete(signup._id);
+  // Synthetic signups were never counted
+  if (!signup.isSynthetic) {
+    await decrementSignupSource(ctx, signup);
+  }
+}
+
+/**
+ * Delete a signup and everything linked to it, leaving a hashed tombstone
+ */
+async function eraseSignupRecord(
+  ctx: MutationCtx,
+  signup: Doc<"signups">,
+  requestedVia: Doc<"erasures">["requestedVia"]
+) {
+  await deleteSignupRecord(ctx, signup);
+
+  await ctx.db.insert("erasures", {
+    emailHash: await hashEmail(signup.email),
+    erasedAt: Date.now(),
+    requestedVia,
+  });
+}
+
+/**
+ * Throw unless `secret` matches the Convex `SIGNUP_SECRET`
+ */
+function requireSignupSecret(secret: string): void {
+  const expected = process.env.SIGNUP_SECRET;
+  // Fail closed: without it, anyone could pass a made-up IP
+  if (!expected || !constantTimeEqual(secret, expected)) {
+    throw new ConvexError<AuthErrorData>({
+      code: "UNAUTHENTICATED",
+      status: 401,
+      message: "Invalid signup secret",
+    });
+  }
+}
+
+/**
+ * Add an address to the waitlist
+ *
+ * Only `/api/signup` (and the health-check cron) hold SIGNUP_SECRET, so
+ * browsers can't call this directly and `clientIp` can be trusted.
+ */
 export const createSignup = mutation({
-  args: { email: v.string() },
+  args: {
+    secret: v.string(),
+    email: v.string(),
+    attribution: v.optional(attributionValidator),
+    firstTouch: v.optional(attributionValidator),
+    // Share code from a `?ref=` link
+    referralCode: v.optional(v.string()),
+    // Abuse protection: the visitor's IP as seen by /api/signup, hidden
+    // honeypot field value and time between form render and submit
+    clientIp: v.optional(v.string()),
+    honeypot: v.optional(v.string()),
+    elapsedMs: v.optional(v.number()),
+    // Domain of a GEO snapshot teaser the visitor is unlocking
+    snapshotDomain: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
+    requireSignupSecret(args.secret);
+
+    // Blocked attempts return instead of throwing so the rate-limit state
+    // and the review record are committed
+    const blockReason = await checkAbuse(ctx, args);
+    if (blockReason) {
+      await recordBlockedAttempt(ctx, blockReason, args.email);
+      if (blockReason === "honeypot") {
+        return {
+          success: true as const,
+          duplicate: false,
+          referralCode: null,
+          profileToken: null,
+          snapshotToken: null,
+        };
+      }
+      return { success: false as const, error: BLOCK_ERRORS[blockReason] };
+    }
+
     // Server-side email format validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(args.email)) {
-      throw new Error("Invalid email format");
+    if (!isValidEmail(args.email)) {
+      throw new ConvexError<SignupErrorData>({
+        code: "INVALID_EMAIL",
+        message: "Invalid email address.",
+      });
     }
 
-    // Check for duplicates using index (efficient)
-    const existing = await ctx.db
-      .query("signups")
-      .withIndex("by_email", (q) => q.eq("email", args.email))
-      .first();
+    // Keep the address as typed (minus stray whitespace)
+    const email = args.email.trim();
+
+    // Throwaway inboxes can't receive launch news; reject them up front
+    if (isDisposableEmail(normalizeEmail(email))) {
+      throw new ConvexError<SignupErrorData>({
+        code: "DISPOSABLE_EMAIL",
+        message: "Please use a permanent email address.",
+      });
+    }
+
+    // Any real address unlocks the snapshot, including ones already signed up
+    const snapshotDomain =
+      args.snapshotDomain && normalizeCompanyDomain(args.snapshotDomain);
+    const snapshotToken = snapshotDomain
+      ? await createSnapshotUnlockToken(snapshotDomain)
+      : null;
+
+    // Check for duplicates on the canonical address using index (efficient)
+    const existing = await findSignupByEmail(ctx, email);
+
+    // Erased addresses are treated like duplicates so we never re-add them
+    if (!existing && (await isErased(ctx, email))) {
+      await incrementCounter(ctx, SIGNUPS_DUPLICATE_COUNTER);
+      return {
+        success: true as const,
+        duplicate: true,
+        referralCode: null,
+        profileToken: null,
+        snapshotToken,
+      };
+    }
+
+    // The synthetic check's second submission proves dedupe; nothing else
+    if (existing?.isSynthetic) {
+      return {
+        success: true as const,
+        duplicate: true,
+        referralCode: null,
+        profileToken: null,
+        snapshotToken,
+      };
+    }
 
     // Silent success for duplicates (UX-friendly)
     if (existing) {
-      return { success: true, duplicate: true };
+      await incrementCounter(ctx, SIGNUPS_DUPLICATE_COUNTER);
+
+      // Re-send the confirmation if the address was never confirmed. An
+      // unsubscribe stands: anyone can submit an address, so a resubmit
+      // neither undoes it nor mails the owner.
+      if (existing.status === "pending") {
+        await issueConfirmationToken(ctx, existing._id, existing.email);
+      }
+      const referralCode = await ensureWaitlistEntry(ctx, existing);
+      // No profile token: anyone can submit an existing address
+      return {
+        success: true as const,
+        duplicate: true,
+        referralCode,
+        profileToken: null,
+        snapshotToken,
+      };
+    }
+
+    // The health-check cron's reserved address: store a flagged row without
+    // a waitlist place, confirmation email, counter or Slack notification
+    if (isSyntheticSignupEmail(email)) {
+      await ctx.db.insert("signups", {
+        email,
+        normalizedEmail: normalizeEmail(email),
+        source: "landing-page",
+        status: "pending",
+        isSynthetic: true,
+      });
+      return {
+        success: true as const,
+        duplicate: false,
+        referralCode: null,
+        profileToken: null,
+        snapshotToken,
+      };
     }
 
-    // Insert new signup
-    await ctx.db.insert("signups", {
-      email: args.email,
+    // Insert new signup, pending until the address is confirmed
+    const waitlistEntry = await createWaitlistEntry(ctx);
+    const signupId = await ctx.db.insert("signups", {
+      email,
+      normalizedEmail: normalizeEmail(email),
       source: "landing-page",
+      status: "pending",
+      attribution: sanitizeAttribution(args.attribution),
+      firstTouch: sanitizeAttribution(args.firstTouch),
+      ...waitlistEntry,
     });
 
-    return { success: true, duplicate: false };
+    if (args.referralCode) {
+      const referredBy = await recordReferral(ctx, args.referralCode, signupId);
+      if (referredBy) {
+        await ctx.db.patch(signupId, { referredBy });
+      }
+    }
+
+    await incrementCounter(ctx, signupSourceCounter("landing-page"));
+    await issueConfirmationToken(ctx, signupId, email);
+    await enqueueSignupNotification(ctx, signupId);
+
+    return {
+      success: true as const,
+      duplicate: false,
+      referralCode: waitlistEntry.referralCode,
+      // Lets this browser add profile details in the optional second step
+      profileToken: await createProfileToken(signupId),
+      snapshotToken,
+    };
+  },
+});
+
+/**
+ * Optional second step after signup: company domain, role and AI engines
+ *
+ * Keyed by the short-lived `profileToken` returned from `createSignup`.
+ * Never touches the signup's status, so skipping or failing here has no
+ * effect on it.
+ */
+export const updateSignupProfile = mutation({
+  args: {
+    token: v.string(),
+    companyDomain: v.optional(v.string()),
+    role: v.optional(v.string()),
+    aiEngines: v.optional(v.array(aiEngineValidator)),
+  },
+  handler: async (ctx, args) => {
+    const { signup } = await getSignupFromProfileToken(ctx, args.token);
+    if (!signup) {
+      return { status: "invalid" as const };
+    }
+
+    await ctx.db.patch(signup._id, {
+      profile: { ...sanitizeProfile(args), updatedAt: Date.now() },
+    });
+
+    return { status: "saved" as const };
+  },
+});
+
+/**
+ * Signups attributed to a campaign, either at signup time or first touch
+ */
+export const listByCampaign = internalQuery({
+  args: {
+    utmCampaign: v.string(),
+    touch: v.optional(v.union(v.literal("last"), v.literal("first"))),
+  },
+  handler: async (ctx, args) => {
+    if (args.touch === "first") {
+      return await ctx.db
+        .query("signups")
+        .withIndex("by_first_touch_campaign", (q) =>
+          q.eq("firstTouch.utmCampaign", args.utmCampaign)
+        )
+        .collect();
+    }
+
+    return await ctx.db
+      .query("signups")
+      .withIndex("by_utm_campaign", (q) =>
+        q.eq("attribution.utmCampaign", args.utmCampaign)
+      )
+      .collect();
+  },
+});
+
+export const confirmSignup = mutation({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const confirmation = await ctx.db
+      .query("confirmationTokens")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .first();
+
+    if (!confirmation) {
+      return { status: "invalid" as const };
+    }
+
+    // Tokens are single-use: consume it whether or not it is still valid
+    await ctx.db.delete(confirmation._id);
+
+    if (confirmation.expiresAt < Date.now()) {
+      return { status: "expired" as const };
+    }
+
+    const signup = await ctx.db.get(confirmation.signupId);
+    if (!signup) {
+      return { status: "invalid" as const };
+    }
+
+    // A link sent before an unsubscribe doesn't undo it
+    if (signup.status === "unsubscribed") {
+      return { status: "invalid" as const };
+    }
+
+    if (signup.status !== "confirmed") {
+      await ctx.db.patch(signup._id, {
+        status: "confirmed",
+        confirmedAt: Date.now(),
+      });
+      await confirmReferral(ctx, signup._id);
+    }
+
+    return { status: "confirmed" as const };
+  },
+});
+
+export const unsubscribe = mutation({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const result = await getSignupFromLinkToken(ctx, args.token);
+    if (!result.valid) {
+      return { status: "invalid" as const };
+    }
+
+    // Already erased: there is nothing left to unsubscribe
+    if (result.signup && result.signup.status !== "unsubscribed") {
+      await ctx.db.patch(result.signup._id, {
+        status: "unsubscribed",
+        unsubscribedAt: Date.now(),
+      });
+    }
+
+    return { status: "unsubscribed" as const };
+  },
+});
+
+/**
+ * Self-service erasure from a signed email link
+ */
+export const eraseSignup = mutation({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const result = await getSignupFromLinkToken(ctx, args.token);
+    if (!result.valid) {
+      return { status: "invalid" as const };
+    }
+
+    if (result.signup) {
+      await eraseSignupRecord(ctx, result.signup, "subscriber");
+    }
+
+    return { status: "erased" as const };
+  },
+});
+
+/**
+ * Erasure for requests received outside the site (run from the Convex
+ * dashboard or CLI: `bunx convex run signups:eraseSignupByEmail`)
+ */
+export const eraseSignupByEmail = internalMutation({
+  args: { email: v.string() },
+  handler: async (ctx, args) => {
+    const signup = await findSignupByEmail(ctx, args.email);
+
+    if (!signup) {
+      return { erased: false };
+    }
+
+    await eraseSignupRecord(ctx, signup, "admin");
+    return { erased: true };
+  },
+});
+
+/**
+ * Admin: paginated signup listing with search, filters and sorting
+ *
+ * Picks the index that serves the request best: `by_email` for prefix
+ * search or email sorting, `by_source` when filtering by source, and the
+ * built-in creation-time index otherwise. Remaining filters are applied
+ * per page, so pages may come back shorter than `numItems`.
+ */
+export const listSignups = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    sortBy: v.optional(v.union(v.literal("createdAt"), v.literal("email"))),
+    order: v.optional(v.union(v.literal("asc"), v.literal("desc"))),
+    emailPrefix: v.optional(v.string()),
+    source: v.optional(v.string()),
+    status: v.optional(signupStatusValidator),
+    // Epoch milliseconds, inclusive
+    createdFrom: v.optional(v.number()),
+    createdTo: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const order = args.order ?? "desc";
+    const from = args.createdFrom ?? 0;
+    const to = args.createdTo ?? Number.MAX_SAFE_INTEGER;
+    const prefix = args.emailPrefix?.trim();
+
+    let signups;
+    if (prefix || args.sortBy === "email") {
+      signups = ctx.db
+        .query("signups")
+        .withIndex("by_email", (q) =>
+          prefix ? q.gte("email", prefix).lt("email", `${prefix}\uffff`) : q
+        )
+        .filter((q) =>
+          q.and(
+            q.gte(q.field("_creationTime"), from),
+            q.lte(q.field("_creationTime"), to),
+            args.source ? q.eq(q.field("source"), args.source) : true
+          )
+        );
+    } else if (args.source) {
+      const source = args.source;
+      signups = ctx.db
+        .query("signups")
+        .withIndex("by_source", (q) =>
+          q
+            .eq("source", source)
+            .gte("_creationTime", from)
+            .lte("_creationTime", to)
+        );
+    } else {
+      signups = ctx.db
+        .query("signups")
+        .withIndex("by_creation_time", (q) =>
+          q.gte("_creationTime", from).lte("_creationTime", to)
+        );
+    }
+
+    if (args.status) {
+      const status = args.status;
+      signups = signups.filter((q) => q.eq(q.field("status"), status));
+    }
+
+    // Rows from the health-check cron are never shown or exported
+    signups = signups.filter((q) => q.neq(q.field("isSynthetic"), true));
+
+    return await signups.order(order).paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Admin: delete a signup and its related data (no erasure tombstone, so
+ * the address can sign up again)
+ */
+export const deleteSignup = mutation({
+  args: { signupId: v.id("signups") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+
+    const signup = await ctx.db.get(args.signupId);
+    if (signup) {
+      await deleteSignupRecord(ctx, signup);
+    }
+  },
+});
+
+/**
+ * Admin: flag or unflag a signup as test data
+ */
+export const setTestSignup = mutation({
+  args: { signupId: v.id("signups"), isTest: v.boolean() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx);
+    await ctx.db.patch(args.signupId, { isTest: args.isTest });
+  },
+});
+
+/**
+ * Health-check cron: delete every signup for the synthetic check's address
+ *
+ * Run before and after the check, so a run that died half-way never
+ * leaves a row behind for the next one to trip over.
+ *
+ * @returns How many rows were removed and whether all were flagged synthetic
+ */
+export const removeSyntheticSignups = mutation({
+  args: { secret: v.string() },
+  handler: async (ctx, args) => {
+    requireMonitorSecret(args.secret);
+
+    const rows = await ctx.db
+      .query("signups")
+      .withIndex("by_normalized_email", (q) =>
+        q.eq("normalizedEmail", SYNTHETIC_SIGNUP_EMAIL)
+      )
+      .collect();
+    for (const row of rows) {
+      await deleteSignupRecord(ctx, row);
+    }
+
+    return {
+      removed: rows.length,
+      flagged: rows.every((row) => row.isSynthetic === true),
+    };
   },
 });
@@ -0,0 +1,145 @@
+import {
+  action,
+  internalMutation,
+  internalQuery,
+  query,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { normalizeCompanyDomain } from "./lib/profile";
+import { consumeRateLimit, rateLimitFromEnv } from "./lib/rateLimit";
+import {
+  getSnapshotCacheMs,
+  getSnapshotProvider,
+  snapshotReportValidator,
+  toSnapshotTeaser,
+  type SnapshotTeaserResult,
+  verifySnapshotUnlockToken,
+} from "./lib/snapshot";
+
+/**
+ * GEO snapshot teaser for the landing page.
+ *
+ * Reports are generated by the configured provider at most once per domain
+ * per cache window; cache hits are free, fresh generations are rate limited
+ * per browser and globally since real providers cost money per call.
+ */
+
+export const getCachedSnapshot = internalQuery({
+  args: { domain: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("snapshots")
+      .withIndex("by_domain", (q) => q.eq("domain", args.domain))
+      .first();
+  },
+});
+
+export const reserveSnapshotGeneration = internalMutation({
+  args: { clientId: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    if (args.clientId) {
+      const clientAllowed = await consumeRateLimit(
+        ctx,
+        `snapshot:client:${args.clientId}`,
+        rateLimitFromEnv("SNAPSHOT_CLIENT_RATE_LIMIT", {
+          capacity: 10,
+          windowMs: 60 * 60 * 1000,
+        })
+      );
+      if (!clientAllowed) {
+        return false;
+      }
+    }
+
+    return await consumeRateLimit(
+      ctx,
+      "snapshot:global",
+      rateLimitFromEnv("SNAPSHOT_GLOBAL_RATE_LIMIT", {
+        capacity: 30,
+        windowMs: 60 * 1000,
+      })
+    );
+  },
+});
+
+export const saveSnapshot = internalMutation({
+  args: {
+    domain: v.string(),
+    provider: v.string(),
+    report: snapshotReportValidator,
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("snapshots")
+      .withIndex("by_domain", (q) => q.eq("domain", args.domain))
+      .first();
+
+    const snapshot = { ...args, generatedAt: Date.now() };
+    if (existing) {
+      await ctx.db.replace(existing._id, snapshot);
+    } else {
+      await ctx.db.insert("snapshots", snapshot);
+    }
+  },
+});
+
+/**
+ * Teaser report for a brand's domain, served from cache when fresh
+ */
+export const getSnapshotTeaser = action({
+  args: { domain: v.string(), clientId: v.optional(v.string()) },
+  handler: async (ctx, args): Promise<SnapshotTeaserResult> => {
+    const domain = normalizeCompanyDomain(args.domain);
+    if (!domain) {
+      return { status: "invalid_domain" };
+    }
+
+    const cached: Doc<"snapshots"> | null = await ctx.runQuery(
+      internal.snapshots.getCachedSnapshot,
+      { domain }
+    );
+    if (cached && Date.now() - cached.generatedAt < getSnapshotCacheMs()) {
+      return { status: "ok", teaser: toSnapshotTeaser(cached.report) };
+    }
+
+    const allowed = await ctx.runMutation(
+      internal.snapshots.reserveSnapshotGeneration,
+      { clientId: args.clientId }
+    );
+    if (!allowed) {
+      return { status: "rate_limited" };
+    }
+
+    const provider = getSnapshotProvider();
+    const report = await provider.generateReport(domain);
+    await ctx.runMutation(internal.snapshots.saveSnapshot, {
+      domain,
+      provider: provider.name,
+      report,
+    });
+
+    return { status: "ok", teaser: toSnapshotTeaser(report) };
+  },
+});
+
+/**
+ * Full report, unlocked by the `snapshotToken` returned from `createSignup`
+ *
+ * @returns The report, or null if the token doesn't match or nothing is cached
+ */
+export const getFullSnapshot = query({
+  args: { domain: v.string(), unlockToken: v.string() },
+  handler: async (ctx, args) => {
+    if (!(await verifySnapshotUnlockToken(args.unlockToken, args.domain))) {
+      return null;
+    }
+
+    const snapshot = await ctx.db
+      .query("snapshots")
+      .withIndex("by_domain", (q) => q.eq("domain", args.domain))
+      .first();
+    return snapshot?.report ?? null;
+  },
+});
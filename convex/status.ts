@@ -0,0 +1,160 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { createLogger } from "./lib/logger";
+import { requireMonitorSecret } from "./lib/monitor";
+import {
+  DAY_MS,
+  HISTORY_DAYS,
+  PRUNE_BATCH_SIZE,
+  RAW_RETENTION_DAYS,
+  lastDays,
+  uptimePercent,
+  utcDay,
+} from "./lib/uptime";
+
+// Incidents listed on the status page
+const RECENT_INCIDENTS = 10;
+
+/**
+ * Persist one cron run's check results and roll them into daily stats
+ *
+ * Also prunes a batch of raw results older than the retention window.
+ */
+export const recordCheckResults = mutation({
+  args: {
+    secret: v.string(),
+    results: v.array(
+      v.object({
+        check: v.string(),
+        success: v.boolean(),
+        status: v.optional(v.number()),
+        responseTime: v.optional(v.number()),
+        error: v.optional(v.string()),
+      })
+    ),
+    // Correlates these log lines with the cron run that reported
+    runId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    requireMonitorSecret(args.secret);
+    const log = createLogger({ runId: args.runId });
+
+    const checkedAt = Date.now();
+    const day = utcDay(checkedAt);
+
+    for (const result of args.results) {
+      await ctx.db.insert("checkResults", { ...result, checkedAt });
+
+      const responseTime = result.success ? (result.responseTime ?? 0) : 0;
+      const daily = await ctx.db
+        .query("checkDailyStats")
+        .withIndex("by_check_day", (q) =>
+          q.eq("check", result.check).eq("day", day)
+        )
+        .first();
+
+      if (daily) {
+        await ctx.db.patch(daily._id, {
+          total: daily.total + 1,
+          successes: daily.successes + (result.success ? 1 : 0),
+          totalResponseTime: daily.totalResponseTime + responseTime,
+        });
+      } else {
+        await ctx.db.insert("checkDailyStats", {
+          check: result.check,
+          day,
+          total: 1,
+          successes: result.success ? 1 : 0,
+          totalResponseTime: responseTime,
+        });
+      }
+    }
+
+    const expired = await ctx.db
+      .query("checkResults")
+      .withIndex("by_checked_at", (q) =>
+        q.lt("checkedAt", checkedAt - RAW_RETENTION_DAYS * DAY_MS)
+      )
+      .take(PRUNE_BATCH_SIZE);
+    for (const row of expired) {
+      await ctx.db.delete(row._id);
+    }
+
+    log.info("status.results_recorded", {
+      results: args.results.length,
+      pruned: expired.length,
+    });
+  },
+});
+
+/**
+ * Everything the public `/status` page shows
+ *
+ * Deliberately omits URLs and error messages; only check names, outcomes
+ * and timings are public.
+ */
+export const getStatusPage = query({
+  args: {},
+  handler: async (ctx) => {
+    const days = lastDays(HISTORY_DAYS);
+    const stats = await ctx.db
+      .query("checkDailyStats")
+      .withIndex("by_day", (q) => q.gte("day", days[0]))
+      .collect();
+
+    const checkNames = [...new Set(stats.map((s) => s.check))].sort();
+
+    const checks = await Promise.all(
+      checkNames.map(async (name) => {
+        const latest = await ctx.db
+          .query("checkResults")
+          .withIndex("by_check_time", (q) => q.eq("check", name))
+          .order("desc")
+          .first();
+
+        const byDay = new Map(
+          stats.filter((s) => s.check === name).map((s) => [s.day, s])
+        );
+        const totals = [...byDay.values()].reduce(
+          (sum, s) => ({
+            total: sum.total + s.total,
+            successes: sum.successes + s.successes,
+          }),
+          { total: 0, successes: 0 }
+        );
+
+        return {
+          name,
+          operational: latest?.success ?? null,
+          lastCheckedAt: latest?.checkedAt ?? null,
+          responseTime: latest?.success ? (latest.responseTime ?? null) : null,
+          uptime: uptimePercent(totals.successes, totals.total),
+          days: days.map((day) => {
+            const s = byDay.get(day);
+            return {
+              day,
+              uptime: s ? uptimePercent(s.successes, s.total) : null,
+            };
+          }),
+        };
+      })
+    );
+
+    const incidents = await ctx.db
+      .query("incidents")
+      .order("desc")
+      .take(RECENT_INCIDENTS);
+
+    return {
+      operational:
+        checks.length > 0 ? checks.every((c) => c.operational !== false) : null,
+      checks,
+      incidents: incidents.map((incident) => ({
+        id: incident._id,
+        status: incident.status,
+        openedAt: incident.openedAt,
+        resolvedAt: incident.resolvedAt ?? null,
+      })),
+    };
+  },
+});
@@ -0,0 +1,71 @@
+import { createAccount, getAuthUserId } from "@convex-dev/auth/server";
+import { internalAction, internalMutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { roleValidator } from "./schema";
+
+/**
+ * The signed-in user, or null when signed out
+ */
+export const viewer = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const user = await ctx.db.get(userId);
+    if (!user) {
+      return null;
+    }
+
+    return { email: user.email ?? null, role: user.role ?? null };
+  },
+});
+
+// Same minimum the Password provider enforces on sign-in
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Create an internal account (public sign-up is disabled). Run from the
+ * Convex dashboard or CLI:
+ * `bunx convex run users:createUser '{"email": "...", "password": "..."}'`
+ *
+ * @returns The new user's ID, for `setUserRole`
+ */
+export const createUser = internalAction({
+  args: { email: v.string(), password: v.string() },
+  handler: async (ctx, args): Promise<Id<"users">> => {
+    if (args.password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      );
+    }
+
+    const { user } = await createAccount(ctx, {
+      provider: "password",
+      account: { id: args.email, secret: args.password },
+      profile: { email: args.email },
+    });
+    return user._id;
+  },
+});
+
+/**
+ * Grant or revoke a role by user ID, so a role can never land on an
+ * account someone else registered with the same address. Run from the
+ * Convex dashboard or CLI:
+ * `bunx convex run users:setUserRole '{"userId": "...", "role": "admin"}'`
+ */
+export const setUserRole = internalMutation({
+  args: { userId: v.id("users"), role: v.union(roleValidator, v.null()) },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      throw new Error(`No user with ID ${args.userId}`);
+    }
+
+    await ctx.db.patch(user._id, { role: args.role ?? undefined });
+  },
+});
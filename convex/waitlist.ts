@@ -0,0 +1,33 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { getCounter } from "./lib/counters";
+import {
+  computePosition,
+  REFERRAL_BOOST,
+  WAITLIST_SIZE_COUNTER,
+} from "./lib/waitlist";
+
+export const getWaitlistPosition = query({
+  args: { referralCode: v.string() },
+  handler: async (ctx, args) => {
+    const signup = await ctx.db
+      .query("signups")
+      .withIndex("by_referral_code", (q) =>
+        q.eq("referralCode", args.referralCode.trim().toUpperCase())
+      )
+      .first();
+
+    if (!signup) {
+      return null;
+    }
+
+    return {
+      position: await computePosition(ctx, signup),
+      total: await getCounter(ctx, WAITLIST_SIZE_COUNTER),
+      confirmedReferrals: signup.confirmedReferrals ?? 0,
+      placesPerReferral: REFERRAL_BOOST,
+      // Rows without a status predate double opt-in and count as confirmed
+      confirmed: (signup.status ?? "confirmed") === "confirmed",
+    };
+  },
+});
@@ -0,0 +1,16 @@
+import { convexAuthNextjsToken } from '@convex-dev/auth/nextjs/server';
+
+/**
+ * Admin Area Helpers (server-only)
+ *
+ * Admin pages and routes call admin-only Convex functions from the server
+ * on behalf of the signed-in user by forwarding their Convex Auth token.
+ */
+
+/**
+ * Options for `fetchQuery`/`fetchMutation` that authenticate as the
+ * current user
+ */
+export async function getConvexAuthOptions(): Promise<{ token?: string }> {
+  return { token: await convexAuthNextjsToken() };
+}
@@ -0,0 +1,117 @@
+import type { Attribution } from '@/convex/lib/attribution';
+
+/**
+ * Landing Page Attribution
+ *
+ * Captures UTM parameters, the referrer, the landing variant and any
+ * `?ref=` share code in the browser so each signup can be tied back to the
+ * campaign or person that produced it. The first touch of a visit (and the
+ * share code) is kept in sessionStorage so it survives in-site navigation
+ * and reloads until the visitor signs up.
+ */
+
+export type { Attribution };
+
+/**
+ * Attribution sent alongside a signup
+ */
+export interface SignupAttribution {
+  /** Touch recorded on the current page load */
+  lastTouch?: Attribution;
+  /** Earliest touch recorded during this visit */
+  firstTouch?: Attribution;
+  /** Waitlist share code of the person who referred this visitor */
+  referralCode?: string;
+}
+
+const FIRST_TOUCH_STORAGE_KEY = 'gist-geo:first-touch';
+const REFERRAL_CODE_STORAGE_KEY = 'gist-geo:referral-code';
+
+const UTM_PARAMS = {
+  utm_source: 'utmSource',
+  utm_medium: 'utmMedium',
+  utm_campaign: 'utmCampaign',
+  utm_term: 'utmTerm',
+  utm_content: 'utmContent',
+} as const;
+
+/**
+ * Read attribution for the current page load from the URL and referrer
+ */
+function readCurrentTouch(): Attribution {
+  const params = new URLSearchParams(window.location.search);
+  const touch: Attribution = {
+    landingPath: window.location.pathname,
+    capturedAt: Date.now(),
+  };
+
+  for (const [param, field] of Object.entries(UTM_PARAMS)) {
+    const value = params.get(param);
+    if (value) touch[field] = value;
+  }
+
+  const variant = params.get('variant');
+  if (variant) touch.landingVariant = variant;
+
+  // Ignore same-site navigation so the external referrer isn't overwritten
+  if (document.referrer) {
+    try {
+      const referrer = new URL(document.referrer);
+      if (referrer.host !== window.location.host) {
+        touch.referrer = document.referrer;
+      }
+    } catch {
+      // Malformed referrer - skip it
+    }
+  }
+
+  return touch;
+}
+
+/**
+ * Capture attribution for this page load and persist the first touch
+ *
+ * Must be called in the browser (e.g. from a useEffect).
+ *
+ * @returns The current touch plus the first touch of the visit
+ */
+export function captureAttribution(): SignupAttribution {
+  const lastTouch = readCurrentTouch();
+  let firstTouch: Attribution | undefined;
+  let referralCode =
+    new URLSearchParams(window.location.search).get('ref') ?? undefined;
+
+  try {
+    const stored = window.sessionStorage.getItem(FIRST_TOUCH_STORAGE_KEY);
+    if (stored) {
+      firstTouch = JSON.parse(stored) as Attribution;
+    } else {
+      firstTouch = lastTouch;
+      window.sessionStorage.setItem(
+        FIRST_TOUCH_STORAGE_KEY,
+        JSON.stringify(lastTouch)
+      );
+    }
+
+    if (referralCode) {
+      window.sessionStorage.setItem(REFERRAL_CODE_STORAGE_KEY, referralCode);
+    } else {
+      referralCode =
+        window.sessionStorage.getItem(REFERRAL_CODE_STORAGE_KEY) ?? undefined;
+    }
+  } catch {
+    // Storage unavailable (private mode, blocked cookies) - use this touch only
+    firstTouch = lastTouch;
+  }
+
+  return { lastTouch, firstTouch, referralCode };
+}
+
+/**
+ * Build the share link that credits `referralCode` for new signups
+ */
+export function buildShareUrl(referralCode: string): string {
+  const url = new URL('/', window.location.origin);
+  url.searchParams.set('ref', referralCode);
+  return url.toString();
+}
@@ -0,0 +1,27 @@
+/**
+ * Browser Client ID
+ *
+ * A random ID kept in localStorage and sent with GEO snapshot requests so
+ * the server can rate-limit per browser. It is not tied to any personal data.
+ */
+
+const CLIENT_ID_STORAGE_KEY = 'gist-geo:client-id';
+
+/**
+ * Get (or create) this browser's client ID
+ *
+ * Must be called in the browser. Falls back to a per-page-load ID when
+ * storage is unavailable.
+ */
+export function getClientId(): string {
+  try {
+    const stored = window.localStorage.getItem(CLIENT_ID_STORAGE_KEY);
+    if (stored) return stored;
+
+    const clientId = crypto.randomUUID();
+    window.localStorage.setItem(CLIENT_ID_STORAGE_KEY, clientId);
+    return clientId;
+  } catch {
+    return crypto.randomUUID();
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * CSV Helpers
+ *
+ * Shared by exports that stream rows to spreadsheets.
+ */
+
+/**
+ * Escape a CSV cell, neutralizing values a spreadsheet would run as formulas
+ */
+export function csvCell(value: string | boolean | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
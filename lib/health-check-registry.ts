@@ -0,0 +1,46 @@
+import type { HealthCheckDefinition, TlsCheckDefinition } from '@/lib/health-check';
+
+/**
+ * Health Check Registry
+ *
+ * Every check the monitoring cron runs, in order. Paths resolve against
+ * the deployment being checked; add absolute URLs to watch other hosts.
+ * See `HealthCheckDefinition` in lib/health-check.ts for all options.
+ */
+export const HEALTH_CHECKS: HealthCheckDefinition[] = [
+  {
+    // Landing page renders with its signup call to action
+    name: 'homepage',
+    label: 'Website',
+    url: '/',
+    expectedStatus: 200,
+    bodyIncludes: ['Get notified when we launch.'],
+    maxLatencyMs: 5000,
+    retry: { retries: 1, baseDelayMs: 5000, maxDelayMs: 15000, jitter: 0.2 },
+  },
+  {
+    // Dependencies answer; "degraded" is slow but serving, so it passes
+    name: 'api-health',
+    label: 'API & database',
+    url: '/api/health',
+    expectedStatus: 200,
+    json: [{ path: 'status', oneOf: ['ok', 'degraded'] }],
+    maxLatencyMs: 3000,
+    retry: { retries: 2, baseDelayMs: 2000, maxDelayMs: 10000, jitter: 0.2 },
+  },
+];
+
+/**
+ * TLS certificates the monitoring cron watches
+ *
+ * Without a `host` the deployment being checked is used, and the check is
+ * skipped when that is plain HTTP (local development). Warning thresholds
+ * default to TLS_WARN_DAYS (21,7,1). See `TlsCheckDefinition`.
+ */
+export const TLS_CHECKS: TlsCheckDefinition[] = [
+  {
+    // Certificate served for the site itself
+    name: 'tls-certificate',
+    label: 'TLS certificate',
+  },
+];
@@ -2,26 +2,138 @@
  * Health Check Monitoring System
  *
  * Provides utilities for monitoring application health and sending alerts
- * when issues are detected. Includes retry logic and Slack integration.
+ * when issues are detected. Includes retry logic, TLS certificate checks
+ * and pluggable alert channels (Slack, generic webhook, Discord, PagerDuty
+ * and email).
  */
+import net from 'node:net';
+import tls from 'node:tls';
+import { logger } from '@/convex/lib/logger';
+import type { Logger } from '@/convex/lib/logger';
+import { sendSmtpMail } from './smtp';
+import type { SmtpConfig } from './smtp';
+
+/**
+ * Health of a single dependency or of the application overall
+ *
+ * - ok: working normally
+ * - degraded: working, but slower than expected
+ * - error: not working
+ */
+export type HealthStatus = 'ok' | 'degraded' | 'error';
+
+/**
+ * Outcome of probing one dependency
+ */
+export interface DependencyCheck {
+  status: HealthStatus;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Which build is serving requests
+ */
+export interface BuildInfo {
+  commitSha: string | null;
+  deployedAt: string | null;
+}
 
 /**
  * Structure for /api/health endpoint responses
+ *
+ * Public responses carry only `status`, `timestamp` and `lastCronRunAt`;
+ * `checks`, `build` and `error` are included in verbose mode.
  */
 export interface HealthCheckResponse {
-  status: 'ok' | 'error';
+  status: HealthStatus;
   timestamp: string;
-  checks: {
-    convex: boolean;
-    environment: boolean;
+  /** When the monitoring cron last ran successfully (null: never, or unknown) */
+  lastCronRunAt?: string | null;
+  checks?: {
+    convex: DependencyCheck;
+    environment: DependencyCheck;
+    cron: DependencyCheck;
   };
+  build?: BuildInfo;
   error?: string;
 }
 
+/**
+ * Run a dependency probe with a timeout, timing how long it took
+ *
+ * @param probe - Resolves if the dependency is healthy, rejects otherwise
+ * @param options.timeoutMs - Give up and report `error` after this long
+ * @param options.degradedMs - Report `degraded` when slower than this
+ * @returns Promise<DependencyCheck> - Never rejects
+ *
+ * @example
+ * ```typescript
+ * const convex = await probeDependency(
+ *   () => fetchQuery(api.health.ping, {}),
+ *   { timeoutMs: 3000, degradedMs: 1000 }
+ * );
+ * ```
+ */
+export async function probeDependency(
+  probe: () => Promise<unknown>,
+  options: { timeoutMs: number; degradedMs: number }
+): Promise<DependencyCheck> {
+  const startTime = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    await Promise.race([
+      probe(),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${options.timeoutMs}ms`)),
+          options.timeoutMs
+        );
+      }),
+    ]);
+
+    const latencyMs = Date.now() - startTime;
+    return {
+      status: latencyMs > options.degradedMs ? 'degraded' : 'ok',
+      latencyMs,
+    };
+  } catch (error) {
+    return {
+      status: 'error',
+      latencyMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Combine individual statuses: any error wins, then any degraded
+ */
+export function combineHealthStatus(statuses: HealthStatus[]): HealthStatus {
+  if (statuses.includes('error')) return 'error';
+  if (statuses.includes('degraded')) return 'degraded';
+  return 'ok';
+}
+
+/**
+ * Commit and build time baked in by next.config.ts
+ */
+export function getBuildInfo(): BuildInfo {
+  return {
+    commitSha: process.env.BUILD_COMMIT_SHA || null,
+    deployedAt: process.env.BUILD_TIME || null,
+  };
+}
+
 /**
  * Result of checking a single endpoint
  */
 export interface HealthCheckResult {
+  /** Registry name of the check, when run from a definition */
+  name?: string;
   url: string;
   success: boolean;
   status?: number;
@@ -54,52 +166,203 @@ export interface SlackHealthAlert {
 }
 
 /**
- * Execute a health check with retry logic
+ * Assertion against a field of a JSON response body
  *
- * @param url - The URL to check
- * @param retries - Number of retry attempts (default: 1)
- * @param delayMs - Delay between retries in milliseconds (default: 5000)
- * @returns Promise<HealthCheckResult> - The result of the health check
+ * `path` is dot-separated, e.g. "status" or "checks.convex.status".
+ * Exactly one of `equals`, `oneOf` or `exists` should be set.
+ */
+export interface JsonAssertion {
+  path: string;
+  equals?: unknown;
+  oneOf?: unknown[];
+  exists?: boolean;
+}
+
+/**
+ * Retry policy: exponential backoff from `baseDelayMs`, capped at
+ * `maxDelayMs`, randomized by ±`jitter` (0-1) to avoid retry stampedes
+ */
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  jitter?: number;
+}
+
+/**
+ * Declarative description of one health check
+ */
+export interface HealthCheckDefinition {
+  /** Stable identifier used in logs, alerts and metrics */
+  name: string;
+  /** Human-readable name for the public status page (default: name) */
+  label?: string;
+  /** Absolute URL, or a path resolved against the monitored base URL */
+  url: string;
+  method?: 'GET' | 'HEAD' | 'POST';
+  headers?: Record<string, string>;
+  /** Accepted status code(s) (default: any 2xx) */
+  expectedStatus?: number | number[];
+  /** Assertions on the parsed JSON body */
+  json?: JsonAssertion[];
+  /** Text that must appear in the response body */
+  bodyIncludes?: string[];
+  /** Latency SLO: slower responses count as failures */
+  maxLatencyMs?: number;
+  /** Abort a single attempt after this long (default: 10000) */
+  timeoutMs?: number;
+  retry?: RetryPolicy;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 1,
+  baseDelayMs: 5000,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+};
+
+/**
+ * Delay before retry number `attempt` (0-based) under `policy`
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  const exponential = policy.baseDelayMs * 2 ** attempt;
+  const capped = Math.min(exponential, policy.maxDelayMs ?? exponential);
+  const jitter = policy.jitter ?? 0;
+  return Math.round(capped * (1 + (Math.random() * 2 - 1) * jitter));
+}
+
+function readJsonPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) =>
+      current !== null && typeof current === 'object'
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    value
+  );
+}
+
+/**
+ * Check a response against a definition's expectations
+ *
+ * @returns An error message, or null if every expectation holds
+ */
+function verifyResponse(
+  check: HealthCheckDefinition,
+  response: Response,
+  body: string,
+  responseTime: number
+): string | null {
+  const status = response.status;
+  const expected = check.expectedStatus;
+  const statusOk =
+    expected === undefined
+      ? status >= 200 && status < 300
+      : ([] as number[]).concat(expected).includes(status);
+  if (!statusOk) {
+    return `HTTP ${status}: ${response.statusText}${expected !== undefined ? ` (expected ${expected})` : ''}`;
+  }
+
+  if (check.maxLatencyMs !== undefined && responseTime > check.maxLatencyMs) {
+    return `Latency ${responseTime}ms exceeded SLO of ${check.maxLatencyMs}ms`;
+  }
+
+  for (const text of check.bodyIncludes ?? []) {
+    if (!body.includes(text)) {
+      return `Body missing required text "${text}"`;
+    }
+  }
+
+  if (check.json?.length) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return 'Body is not valid JSON';
+    }
+
+    for (const assertion of check.json) {
+      const actual = readJsonPath(parsed, assertion.path);
+      const shown = JSON.stringify(actual);
+      if ('equals' in assertion && actual !== assertion.equals) {
+        return `${assertion.path} was ${shown}, expected ${JSON.stringify(assertion.equals)}`;
+      }
+      if (assertion.oneOf && !assertion.oneOf.includes(actual)) {
+        return `${assertion.path} was ${shown}, expected one of ${JSON.stringify(assertion.oneOf)}`;
+      }
+      if (assertion.exists !== undefined && (actual !== undefined) !== assertion.exists) {
+        return `${assertion.path} ${assertion.exists ? 'is missing' : 'should be absent'}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run a check from the registry, retrying per its policy
+ *
+ * Every failed attempt (HTTP error, failed assertion, SLO breach or
+ * network exception) waits the same backoff before the next one.
+ *
+ * @param check - The check definition
+ * @param baseUrl - Base URL that relative check URLs resolve against
+ * @param log - Logger carrying the caller's request/run ID
+ * @returns Promise<HealthCheckResult> - The result of the final attempt
  *
  * @example
  * ```typescript
- * const result = await executeHealthCheck('https://example.com');
- * if (result.success) {
- *   console.log('Health check passed');
- * } else {
- *   console.error('Health check failed:', result.error);
- * }
+ * const result = await runHealthCheck(
+ *   { name: 'api-health', url: '/api/health', json: [{ path: 'status', equals: 'ok' }] },
+ *   'https://example.com'
+ * );
  * ```
  */
-export async function executeHealthCheck(
-  url: string,
-  retries: number = 1,
-  delayMs: number = 5000
+export async function runHealthCheck(
+  check: HealthCheckDefinition,
+  baseUrl: string,
+  log: Logger = logger
 ): Promise<HealthCheckResult> {
-  let lastError: string = '';
+  const url = new URL(check.url, baseUrl).toString();
+  const checkLog = log.child({ check: check.name, url });
+  const policy = check.retry ?? DEFAULT_RETRY_POLICY;
+  const needsBody = !!(check.json?.length || check.bodyIncludes?.length);
+
+  let lastError = '';
   let lastStatus: number | undefined;
+  let lastResponseTime: number | undefined;
 
-  for (let attempt = 0; attempt <= retries; attempt++) {
+  for (let attempt = 0; attempt <= policy.retries; attempt++) {
     const startTime = Date.now();
 
     try {
-      console.log(`[HEALTH_CHECK] Attempt ${attempt + 1}/${retries + 1} for ${url}`);
+      checkLog.debug('health_check.attempt', {
+        attempt: attempt + 1,
+        maxAttempts: policy.retries + 1,
+      });
 
       const response = await fetch(url, {
-        method: 'GET',
+        method: check.method ?? 'GET',
         headers: {
           'User-Agent': 'Gist-GEO-Health-Check/1.0',
+          ...check.headers,
         },
-        // Timeout after 10 seconds
-        signal: AbortSignal.timeout(10000),
+        signal: AbortSignal.timeout(check.timeoutMs ?? 10000),
       });
 
+      const body = needsBody ? await response.text() : '';
       const responseTime = Date.now() - startTime;
       lastStatus = response.status;
+      lastResponseTime = responseTime;
 
-      if (response.ok) {
-        console.log(`[HEALTH_CHECK] ✅ Success for ${url} (${response.status}) in ${responseTime}ms`);
+      const failure = verifyResponse(check, response, body, responseTime);
+      if (!failure) {
+        checkLog.info('health_check.passed', {
+          status: response.status,
+          attempts: attempt + 1,
+          durationMs: responseTime,
+        });
         return {
+          name: check.name,
           url,
           success: true,
           status: response.status,
@@ -108,29 +371,322 @@ export async function executeHealthCheck(
         };
       }
 
-      lastError = `HTTP ${response.status}: ${response.statusText}`;
-      console.log(`[HEALTH_CHECK] ❌ Failed for ${url}: ${lastError}`);
-
+      lastError = failure;
+      checkLog.warn('health_check.attempt_failed', {
+        attempt: attempt + 1,
+        status: response.status,
+        durationMs: responseTime,
+        error: lastError,
+      });
     } catch (error) {
-      const responseTime = Date.now() - startTime;
       lastError = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`[HEALTH_CHECK] ❌ Error for ${url}:`, lastError);
+      checkLog.warn('health_check.attempt_errored', {
+        attempt: attempt + 1,
+        durationMs: Date.now() - startTime,
+        error: lastError,
+      });
+    }
 
-      // If this is not the last attempt, wait before retrying
-      if (attempt < retries) {
-        console.log(`[HEALTH_CHECK] Waiting ${delayMs}ms before retry...`);
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-      }
+    // If this is not the last attempt, wait before retrying
+    if (attempt < policy.retries) {
+      const delayMs = getRetryDelay(policy, attempt);
+      checkLog.debug('health_check.retry_scheduled', { delayMs });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
     }
   }
 
   // All attempts failed
+  checkLog.error('health_check.failed', {
+    status: lastStatus,
+    attempts: policy.retries + 1,
+    error: lastError,
+  });
   return {
+    name: check.name,
     url,
     success: false,
     status: lastStatus,
     error: lastError,
-    attempts: retries + 1,
+    attempts: policy.retries + 1,
+    responseTime: lastResponseTime,
+  };
+}
+
+/**
+ * Execute a health check with retry logic
+ *
+ * Shorthand for `runHealthCheck` with a fixed delay and no assertions
+ * beyond a 2xx status.
+ *
+ * @param url - The URL to check
+ * @param retries - Number of retry attempts (default: 1)
+ * @param delayMs - Delay between retries in milliseconds (default: 5000)
+ * @returns Promise<HealthCheckResult> - The result of the health check
+ *
+ * @example
+ * ```typescript
+ * const result = await executeHealthCheck('https://example.com');
+ * if (result.success) {
+ *   console.log('Health check passed');
+ * } else {
+ *   console.error('Health check failed:', result.error);
+ * }
+ * ```
+ */
+export async function executeHealthCheck(
+  url: string,
+  retries: number = 1,
+  delayMs: number = 5000
+): Promise<HealthCheckResult> {
+  return runHealthCheck(
+    { name: url, url, retry: { retries, baseDelayMs: delayMs, maxDelayMs: delayMs } },
+    url
+  );
+}
+
+// ============================================================================
+// TLS Certificate Checks
+// ============================================================================
+
+/**
+ * A TLS certificate to watch
+ *
+ * Opens a TLS connection, reads the peer certificate and checks that it is
+ * trusted, currently valid and covers the host. A failure counts like any
+ * other failed check (the site is effectively down); a certificate that is
+ * merely close to expiry passes but reaches a warning threshold.
+ */
+export interface TlsCheckDefinition {
+  /** Stable identifier used in logs and stored results */
+  name: string;
+  /** Human-friendly name shown on the status page */
+  label?: string;
+  /** Host to connect to (default: host of the base URL being checked) */
+  host?: string;
+  /** Port to connect to (default: 443) */
+  port?: number;
+  /** Warn when this many days or fewer remain (default: TLS_WARN_DAYS, else 21, 7, 1) */
+  warnDays?: number[];
+  /** Give up on the handshake after this long (default: 10000) */
+  timeoutMs?: number;
+  /** Extra trusted CA certificates (PEM), e.g. a local self-signed server's */
+  ca?: string | string[];
+  /** Retries for failed handshakes; certificate problems are never retried */
+  retry?: RetryPolicy;
+}
+
+/**
+ * What the peer certificate says about itself
+ */
+export interface CertificateInfo {
+  subject: string | null;
+  issuer: string | null;
+  /** Validity window (epoch milliseconds) */
+  validFrom: number;
+  validTo: number;
+  /** Whole days until `validTo` (negative once expired) */
+  daysRemaining: number;
+  /** Smallest warning threshold reached, or null while outside all of them */
+  warnThreshold: number | null;
+}
+
+/**
+ * Result of a TLS check; `certificate` is set whenever one was received
+ */
+export interface TlsCheckResult extends HealthCheckResult {
+  host: string;
+  certificate?: CertificateInfo;
+}
+
+export const DEFAULT_CERTIFICATE_WARN_DAYS = [21, 7, 1];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Smallest of `warnDays` that `daysRemaining` has reached
+ *
+ * @example
+ * getCertificateWarnThreshold(5, [21, 7, 1]) // 7
+ * getCertificateWarnThreshold(30, [21, 7, 1]) // null
+ */
+export function getCertificateWarnThreshold(
+  daysRemaining: number,
+  warnDays: number[]
+): number | null {
+  const reached = warnDays.filter(days => daysRemaining <= days);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+/**
+ * Parse a comma-separated day list, e.g. "21,7,1"
+ */
+function warnDaysFromEnv(): number[] {
+  const days = (process.env.TLS_WARN_DAYS ?? '')
+    .split(',')
+    .map(Number)
+    .filter(n => Number.isFinite(n) && n > 0);
+  return days.length > 0 ? days : DEFAULT_CERTIFICATE_WARN_DAYS;
+}
+
+/**
+ * Complete a TLS handshake and return the peer certificate
+ *
+ * Verification is left to the caller so an untrusted or expired
+ * certificate can still be inspected and reported precisely.
+ */
+function fetchPeerCertificate(
+  host: string,
+  port: number,
+  options: { timeoutMs: number; ca?: string | string[] }
+): Promise<{ certificate: tls.PeerCertificate; authorizationError: string | null }> {
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({
+      host,
+      port,
+      // SNI only takes hostnames
+      servername: net.isIP(host) ? undefined : host,
+      ca: options.ca ? [...tls.rootCertificates, ...[options.ca].flat()] : undefined,
+      rejectUnauthorized: false,
+    });
+    socket.setTimeout(options.timeoutMs);
+
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate();
+      const authorizationError = socket.authorized
+        ? null
+        : String(socket.authorizationError ?? 'Unknown verification error');
+      socket.end();
+
+      if (!certificate || Object.keys(certificate).length === 0) {
+        reject(new Error('No certificate presented'));
+      } else {
+        resolve({ certificate, authorizationError });
+      }
+    });
+    socket.once('timeout', () => {
+      socket.destroy(new Error(`Timed out after ${options.timeoutMs}ms`));
+    });
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Check the TLS certificate served for a host
+ *
+ * A failed handshake is retried like a failed HTTP check (`check.retry`,
+ * else the default policy); a certificate that was received is judged once.
+ *
+ * @param check - Which host and port to check, and when to warn
+ * @param baseUrl - Base URL being monitored; supplies the default host
+ * @param log - Logger for attempt and outcome events (e.g. one carrying a run ID)
+ * @returns Promise<TlsCheckResult> - Never rejects
+ *
+ * @example
+ * ```typescript
+ * const result = await runTlsCheck({ name: 'tls', host: 'gistgeo.ai' }, 'https://gistgeo.ai');
+ * if (result.certificate && result.certificate.warnThreshold !== null) {
+ *   // expires within one of the warning windows
+ * }
+ * ```
+ */
+export async function runTlsCheck(
+  check: TlsCheckDefinition,
+  baseUrl: string,
+  log: Logger = logger
+): Promise<TlsCheckResult> {
+  const host = check.host ?? new URL(baseUrl).hostname;
+  const port = check.port ?? 443;
+  const url = `tls://${host}:${port}`;
+  const checkLog = log.child({ check: check.name, url });
+  const policy = check.retry ?? DEFAULT_RETRY_POLICY;
+
+  let peer;
+  let attempts = 0;
+  let startTime = Date.now();
+  while (!peer) {
+    attempts++;
+    startTime = Date.now();
+    try {
+      peer = await fetchPeerCertificate(host, port, {
+        timeoutMs: check.timeoutMs ?? 10000,
+        ca: check.ca,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (attempts > policy.retries) {
+        checkLog.error('health_check.failed', { error: message, attempts });
+        return {
+          name: check.name,
+          url,
+          host,
+          success: false,
+          error: message,
+          attempts,
+          responseTime: Date.now() - startTime,
+        };
+      }
+
+      const delayMs = getRetryDelay(policy, attempts - 1);
+      checkLog.warn('health_check.attempt_errored', {
+        attempt: attempts,
+        error: message,
+        delayMs,
+      });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+
+  const responseTime = Date.now() - startTime;
+  const { certificate, authorizationError } = peer;
+  const validFrom = new Date(certificate.valid_from).getTime();
+  const validTo = new Date(certificate.valid_to).getTime();
+  const daysRemaining = Math.floor((validTo - Date.now()) / DAY_MS);
+
+  const info: CertificateInfo = {
+    subject: certificate.subject?.CN ?? null,
+    issuer: certificate.issuer?.CN ?? certificate.issuer?.O ?? null,
+    validFrom,
+    validTo,
+    daysRemaining,
+    warnThreshold: getCertificateWarnThreshold(
+      daysRemaining,
+      check.warnDays ?? warnDaysFromEnv()
+    ),
+  };
+
+  // Expiry and hostname get specific messages; anything else the chain
+  // verification rejected (untrusted issuer, self-signed, ...) follows
+  let error: string | undefined;
+  if (Date.now() >= validTo) {
+    error = `Certificate expired ${new Date(validTo).toISOString()}`;
+  } else if (Date.now() < validFrom) {
+    error = `Certificate not valid until ${new Date(validFrom).toISOString()}`;
+  } else {
+    const mismatch = tls.checkServerIdentity(host, certificate);
+    if (mismatch) {
+      error = `Certificate does not cover ${host}: ${mismatch.message}`;
+    } else if (authorizationError) {
+      error = `Untrusted certificate: ${authorizationError}`;
+    }
+  }
+
+  if (error) {
+    checkLog.error('health_check.failed', { error, certificate: info });
+  } else if (info.warnThreshold !== null) {
+    checkLog.warn('health_check.certificate_expiring', { certificate: info });
+  } else {
+    checkLog.info('health_check.passed', { responseTime, daysRemaining });
+  }
+
+  return {
+    name: check.name,
+    url,
+    host,
+    success: !error,
+    ...(error ? { error } : {}),
+    attempts,
+    responseTime,
+    certificate: info,
   };
 }
 
@@ -155,35 +711,6 @@ export function formatHealthAlert(
   baseUrl: string
 ): SlackHealthAlert {
   const failedChecks = results.filter(r => !r.success);
-  const timestamp = new Date().toLocaleString('en-US', {
-    month: 'short',
-    day: 'numeric',
-    year: 'numeric',
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true,
-    timeZone: 'America/Los_Angeles',
-  });
-
-  // Build fields for each failed check
-  const fields = failedChecks.flatMap(result => [
-    {
-      type: 'mrkdwn',
-      text: `*🔗 URL:*\n${result.url}`,
-    },
-    {
-      type: 'mrkdwn',
-      text: `*📊 Status:*\n${result.status || 'N/A'}`,
-    },
-    {
-      type: 'mrkdwn',
-      text: `*🔄 Attempts:*\n${result.attempts}`,
-    },
-    {
-      type: 'mrkdwn',
-      text: `*❌ Error:*\n${result.error || 'Unknown error'}`,
-    },
-  ]);
 
   return {
     text: '🚨 Gist GEO Health Check Failed',
@@ -208,38 +735,299 @@ export function formatHealthAlert(
       },
       {
         type: 'section',
-        fields,
+        fields: formatFailureFields(failedChecks),
       },
       {
         type: 'divider',
       },
-      {
-        type: 'context',
-        elements: [
-          {
-            type: 'mrkdwn',
-            text: `⏰ ${timestamp} PST`,
-          },
-        ],
-      },
+      formatTimestampContext(),
     ],
   };
 }
 
 /**
- * Send a health check alert to Slack
+ * Format a reminder that an open incident is still failing
  *
- * @param results - Array of health check results (only failed checks will be alerted)
+ * @param results - Results of the latest run (only failed checks are listed)
  * @param baseUrl - Base URL of the application being monitored
- * @param webhookUrl - Slack webhook URL (optional, uses SLACK_WEBHOOK_URL env var if not provided)
- * @returns Promise<boolean> - True if alert was sent successfully, false otherwise
- *
- * @example
- * ```typescript
- * const results = await Promise.all([
- *   executeHealthCheck('https://example.com'),
- *   executeHealthCheck('https://example.com/api/health'),
- * ]);
+ * @param openedAt - When the incident opened (epoch milliseconds)
+ * @returns SlackHealthAlert - Formatted Slack message payload
+ */
+export function formatStillFailingAlert(
+  results: HealthCheckResult[],
+  baseUrl: string,
+  openedAt: number
+): SlackHealthAlert {
+  const failedChecks = results.filter(r => !r.success);
+  const downtime = formatDuration(Date.now() - openedAt);
+
+  return {
+    text: `⏳ Gist GEO health checks still failing (down ${downtime})`,
+    blocks: [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: '⏳ Still Failing',
+          emoji: true,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${failedChecks.length}* health check${failedChecks.length > 1 ? 's' : ''} still failing for *${baseUrl}* after *${downtime}*`,
+        },
+      },
+      {
+        type: 'divider',
+      },
+      {
+        type: 'section',
+        fields: formatFailureFields(failedChecks),
+      },
+      {
+        type: 'divider',
+      },
+      formatTimestampContext(),
+    ],
+  };
+}
+
+/**
+ * Format a notice that all checks pass again, closing an incident
+ *
+ * @param baseUrl - Base URL of the application being monitored
+ * @param openedAt - When the incident opened (epoch milliseconds)
+ * @param resolvedAt - When checks first passed again (epoch milliseconds)
+ * @returns SlackHealthAlert - Formatted Slack message payload
+ */
+export function formatRecoveryAlert(
+  baseUrl: string,
+  openedAt: number,
+  resolvedAt: number
+): SlackHealthAlert {
+  const downtime = formatDuration(resolvedAt - openedAt);
+
+  return {
+    text: `✅ Gist GEO recovered after ${downtime}`,
+    blocks: [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: '✅ Recovered',
+          emoji: true,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `All health checks are passing again for *${baseUrl}*`,
+        },
+      },
+      {
+        type: 'section',
+        fields: [
+          {
+            type: 'mrkdwn',
+            text: `*🕐 Down since:*\n${formatAlertTime(openedAt)} PST`,
+          },
+          {
+            type: 'mrkdwn',
+            text: `*⏱️ Total downtime:*\n${downtime}`,
+          },
+        ],
+      },
+      {
+        type: 'divider',
+      },
+      formatTimestampContext(),
+    ],
+  };
+}
+
+/**
+ * Format a warning that a TLS certificate is nearing expiry
+ *
+ * @param host - Host the certificate was served for
+ * @param validTo - When the certificate expires (epoch milliseconds)
+ * @param daysRemaining - Whole days left before it expires
+ * @returns SlackHealthAlert - Formatted Slack message payload
+ */
+export function formatCertificateAlert(
+  host: string,
+  validTo: number,
+  daysRemaining: number
+): SlackHealthAlert {
+  return {
+    text: `🔒 TLS certificate for ${host} expires in ${formatDays(daysRemaining)}`,
+    blocks: [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: '🔒 Certificate Expiring',
+          emoji: true,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `The TLS certificate for *${host}* expires in *${formatDays(daysRemaining)}*. Renew it before visitors see browser warnings.`,
+        },
+      },
+      {
+        type: 'section',
+        fields: [
+          {
+            type: 'mrkdwn',
+            text: `*🌐 Host:*\n${host}`,
+          },
+          {
+            type: 'mrkdwn',
+            text: `*📅 Expires:*\n${formatAlertTime(validTo)} PST`,
+          },
+        ],
+      },
+      {
+        type: 'divider',
+      },
+      formatTimestampContext(),
+    ],
+  };
+}
+
+/**
+ * Format the all-clear after an expiring TLS certificate was renewed
+ *
+ * @param host - Host the certificate was served for
+ * @param validTo - When the new certificate expires (epoch milliseconds)
+ * @returns SlackHealthAlert - Formatted Slack message payload
+ */
+export function formatCertificateRenewedAlert(
+  host: string,
+  validTo: number
+): SlackHealthAlert {
+  return {
+    text: `✅ TLS certificate for ${host} renewed`,
+    blocks: [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: '✅ Certificate Renewed',
+          emoji: true,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${host}* now serves a certificate outside every expiry warning window.`,
+        },
+      },
+      {
+        type: 'section',
+        fields: [
+          {
+            type: 'mrkdwn',
+            text: `*🌐 Host:*\n${host}`,
+          },
+          {
+            type: 'mrkdwn',
+            text: `*📅 Valid until:*\n${formatAlertTime(validTo)} PST`,
+          },
+        ],
+      },
+      {
+        type: 'divider',
+      },
+      formatTimestampContext(),
+    ],
+  };
+}
+
+/**
+ * Human-readable duration, e.g. "2h 5m", "45m" or "30s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${totalSeconds}s`;
+}
+
+function formatDays(days: number): string {
+  if (days < 1) return 'less than a day';
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+function formatAlertTime(time: number = Date.now()): string {
+  return new Date(time).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    timeZone: 'America/Los_Angeles',
+  });
+}
+
+function formatTimestampContext(): SlackHealthAlert['blocks'][number] {
+  return {
+    type: 'context',
+    elements: [
+      {
+        type: 'mrkdwn',
+        text: `⏰ ${formatAlertTime()} PST`,
+      },
+    ],
+  };
+}
+
+// Build fields for each failed check
+function formatFailureFields(failedChecks: HealthCheckResult[]) {
+  return failedChecks.flatMap(result => [
+    {
+      type: 'mrkdwn',
+      text: `*🔗 URL:*\n${result.url}`,
+    },
+    {
+      type: 'mrkdwn',
+      text: `*📊 Status:*\n${result.status || 'N/A'}`,
+    },
+    {
+      type: 'mrkdwn',
+      text: `*🔄 Attempts:*\n${result.attempts}`,
+    },
+    {
+      type: 'mrkdwn',
+      text: `*❌ Error:*\n${result.error || 'Unknown error'}`,
+    },
+  ]);
+}
+
+/**
+ * Send a health check alert to Slack
+ *
+ * @param results - Array of health check results (only failed checks will be alerted)
+ * @param baseUrl - Base URL of the application being monitored
+ * @param webhookUrl - Slack webhook URL (optional, uses SLACK_WEBHOOK_URL env var if not provided)
+ * @returns Promise<boolean> - True if alert was sent successfully, false otherwise
+ *
+ * @example
+ * ```typescript
+ * const results = await Promise.all([
+ *   executeHealthCheck('https://example.com'),
+ *   executeHealthCheck('https://example.com/api/health'),
+ * ]);
  *
  * const hasFailures = results.some(r => !r.success);
  * if (hasFailures) {
@@ -255,45 +1043,535 @@ export async function sendSlackAlert(
   const webhook = webhookUrl || process.env.SLACK_WEBHOOK_URL;
 
   if (!webhook) {
-    console.log('[HEALTH_CHECK] Slack webhook URL not configured - skipping alert');
+    logger.info('alert.skipped', { channel: 'slack', reason: 'not_configured' });
     return false;
   }
 
   const failedChecks = results.filter(r => !r.success);
 
   if (failedChecks.length === 0) {
-    console.log('[HEALTH_CHECK] No failed checks - skipping alert');
+    logger.info('alert.skipped', { channel: 'slack', reason: 'no_failures' });
     return true;
   }
 
-  console.log(`[HEALTH_CHECK] Sending alert for ${failedChecks.length} failed check(s)`);
+  try {
+    await postJson(webhook, formatHealthAlert(results, baseUrl));
+    logger.info('alert.delivered', { channel: 'slack', failedChecks: failedChecks.length });
+    return true;
+  } catch (error) {
+    logger.error('alert.delivery_failed', { channel: 'slack', error });
+    return false;
+  }
+}
 
-  const message = formatHealthAlert(results, baseUrl);
+// ============================================================================
+// Alert Channels
+// ============================================================================
 
-  try {
-    const response = await fetch(webhook, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+/**
+ * How urgent a health event is; channels choose which ones they receive
+ *
+ * - critical: an incident just opened
+ * - warning: an open incident is still failing, or a TLS certificate
+ *   reached an expiry warning threshold
+ * - info: an incident resolved, or an expiring certificate was renewed
+ */
+export type AlertSeverity = 'critical' | 'warning' | 'info';
+
+/**
+ * A change in incident state worth telling someone about, or a TLS
+ * certificate nearing expiry or renewed after a warning
+ */
+export type HealthAlertEvent =
+  | {
+      kind: 'opened';
+      baseUrl: string;
+      results: HealthCheckResult[];
+      openedAt: number;
+    }
+  | {
+      kind: 'still_failing';
+      baseUrl: string;
+      results: HealthCheckResult[];
+      openedAt: number;
+    }
+  | {
+      kind: 'recovered';
+      baseUrl: string;
+      openedAt: number;
+      resolvedAt: number;
+    }
+  | {
+      kind: 'certificate_expiring';
+      baseUrl: string;
+      host: string;
+      validTo: number;
+      daysRemaining: number;
+    }
+  | {
+      kind: 'certificate_renewed';
+      baseUrl: string;
+      host: string;
+      validTo: number;
+      daysRemaining: number;
+    };
+
+const EVENT_SEVERITY: Record<HealthAlertEvent['kind'], AlertSeverity> = {
+  opened: 'critical',
+  still_failing: 'warning',
+  recovered: 'info',
+  certificate_expiring: 'warning',
+  certificate_renewed: 'info',
+};
+
+export function getAlertSeverity(event: HealthAlertEvent): AlertSeverity {
+  return EVENT_SEVERITY[event.kind];
+}
+
+/**
+ * A destination for health alerts
+ *
+ * `send` rejects when delivery fails; `notifyAll` turns that into a
+ * per-channel result so one broken channel never blocks the others.
+ */
+export interface Notifier {
+  /** Channel type, e.g. "slack" */
+  type: string;
+  /** Severities this channel receives */
+  severities: AlertSeverity[];
+  send(event: HealthAlertEvent): Promise<void>;
+}
+
+/**
+ * Delivery outcome for one channel
+ */
+export interface NotificationResult {
+  channel: string;
+  delivered: boolean;
+  /** True when the channel doesn't receive this severity */
+  skipped: boolean;
+  error?: string;
+}
+
+/**
+ * One-line description of an event, shared by the plain-text formats
+ */
+export function summarizeHealthEvent(event: HealthAlertEvent): string {
+  if (event.kind === 'certificate_expiring') {
+    return `TLS certificate for ${event.host} expires in ${formatDays(event.daysRemaining)} (${formatAlertTime(event.validTo)} PST)`;
+  }
+  if (event.kind === 'certificate_renewed') {
+    return `TLS certificate for ${event.host} renewed, valid until ${formatAlertTime(event.validTo)} PST`;
+  }
+  if (event.kind === 'recovered') {
+    return `Gist GEO recovered after ${formatDuration(event.resolvedAt - event.openedAt)} (${event.baseUrl})`;
+  }
+
+  const failed = event.results.filter(r => !r.success).length;
+  const checks = `${failed} health check${failed === 1 ? '' : 's'}`;
+  return event.kind === 'opened'
+    ? `${checks} failed for ${event.baseUrl}`
+    : `${checks} still failing for ${event.baseUrl} after ${formatDuration(Date.now() - event.openedAt)}`;
+}
+
+/**
+ * Slack Block Kit payload for any event
+ */
+export function formatSlackAlert(event: HealthAlertEvent): SlackHealthAlert {
+  switch (event.kind) {
+    case 'opened':
+      return formatHealthAlert(event.results, event.baseUrl);
+    case 'still_failing':
+      return formatStillFailingAlert(event.results, event.baseUrl, event.openedAt);
+    case 'recovered':
+      return formatRecoveryAlert(event.baseUrl, event.openedAt, event.resolvedAt);
+    case 'certificate_expiring':
+      return formatCertificateAlert(event.host, event.validTo, event.daysRemaining);
+    case 'certificate_renewed':
+      return formatCertificateRenewedAlert(event.host, event.validTo);
+  }
+}
+
+/**
+ * Channel-neutral JSON payload for generic webhooks
+ */
+export function formatWebhookPayload(event: HealthAlertEvent) {
+  const common = {
+    event: event.kind,
+    severity: getAlertSeverity(event),
+    summary: summarizeHealthEvent(event),
+    baseUrl: event.baseUrl,
+    timestamp: new Date().toISOString(),
+  };
+
+  if (event.kind === 'certificate_expiring' || event.kind === 'certificate_renewed') {
+    return {
+      ...common,
+      host: event.host,
+      validTo: new Date(event.validTo).toISOString(),
+      daysRemaining: event.daysRemaining,
+    };
+  }
+
+  return {
+    ...common,
+    openedAt: new Date(event.openedAt).toISOString(),
+    ...(event.kind === 'recovered'
+      ? {
+          resolvedAt: new Date(event.resolvedAt).toISOString(),
+          downtimeMs: event.resolvedAt - event.openedAt,
+        }
+      : {
+          failures: event.results
+            .filter(r => !r.success)
+            .map(r => ({
+              url: r.url,
+              status: r.status ?? null,
+              error: r.error ?? null,
+              attempts: r.attempts,
+            })),
+        }),
+  };
+}
+
+const DISCORD_COLORS: Record<AlertSeverity, number> = {
+  critical: 0xe01e5a,
+  warning: 0xecb22e,
+  info: 0x2eb67d,
+};
+
+/**
+ * Discord webhook payload with a single embed
+ */
+export function formatDiscordAlert(event: HealthAlertEvent) {
+  const titles = {
+    opened: '🚨 Health Check Alert',
+    still_failing: '⏳ Still Failing',
+    recovered: '✅ Recovered',
+    certificate_expiring: '🔒 Certificate Expiring',
+    certificate_renewed: '✅ Certificate Renewed',
+  };
+
+  const fields =
+    event.kind === 'certificate_expiring' || event.kind === 'certificate_renewed'
+      ? [
+          { name: 'Host', value: event.host, inline: true },
+          {
+            name: event.kind === 'certificate_renewed' ? 'Valid until' : 'Expires',
+            value: `${formatAlertTime(event.validTo)} PST`,
+            inline: true,
+          },
+        ]
+      : event.kind === 'recovered'
+        ? [
+            { name: 'Down since', value: `${formatAlertTime(event.openedAt)} PST`, inline: true },
+            { name: 'Total downtime', value: formatDuration(event.resolvedAt - event.openedAt), inline: true },
+          ]
+        : event.results
+            .filter(r => !r.success)
+            .map(r => ({
+              name: r.url,
+              value: `Status: ${r.status || 'N/A'} · Attempts: ${r.attempts}\n${r.error || 'Unknown error'}`,
+              inline: false,
+            }));
+
+  return {
+    content: summarizeHealthEvent(event),
+    embeds: [
+      {
+        title: titles[event.kind],
+        color: DISCORD_COLORS[getAlertSeverity(event)],
+        fields,
+        timestamp: new Date().toISOString(),
       },
-      body: JSON.stringify(message),
-    });
+    ],
+  };
+}
+
+/**
+ * PagerDuty Events API v2 payload
+ *
+ * Opening and reminders trigger the same dedup key, so PagerDuty keeps a
+ * single incident; recovery resolves it. Certificate warnings get a key
+ * per host, so they never merge with an outage, and renewal resolves it.
+ */
+export function formatPagerDutyEvent(event: HealthAlertEvent, routingKey: string) {
+  const dedupKey =
+    event.kind === 'certificate_expiring' || event.kind === 'certificate_renewed'
+      ? `gist-geo-tls:${event.host}`
+      : `gist-geo-health:${event.baseUrl}`;
+
+  if (event.kind === 'recovered' || event.kind === 'certificate_renewed') {
+    return {
+      routing_key: routingKey,
+      event_action: 'resolve' as const,
+      dedup_key: dedupKey,
+    };
+  }
 
-    if (!response.ok) {
-      console.error(
-        '[HEALTH_CHECK] Slack webhook failed:',
-        response.status,
-        response.statusText
+  return {
+    routing_key: routingKey,
+    event_action: 'trigger' as const,
+    dedup_key: dedupKey,
+    payload: {
+      summary: summarizeHealthEvent(event),
+      source: event.baseUrl,
+      severity: event.kind === 'opened' ? ('critical' as const) : ('warning' as const),
+      timestamp: new Date().toISOString(),
+      component: 'gist-geo',
+      custom_details: formatWebhookPayload(event),
+    },
+  };
+}
+
+/**
+ * Plain-text email for any event
+ */
+export function formatEmailAlert(event: HealthAlertEvent): { subject: string; text: string } {
+  const lines = [summarizeHealthEvent(event), ''];
+
+  if (event.kind === 'certificate_expiring' || event.kind === 'certificate_renewed') {
+    lines.push(
+      `Host: ${event.host}`,
+      `${event.kind === 'certificate_renewed' ? 'Valid until' : 'Expires'}: ${formatAlertTime(event.validTo)} PST`,
+      ''
+    );
+  } else if (event.kind === 'recovered') {
+    lines.push(
+      `Down since: ${formatAlertTime(event.openedAt)} PST`,
+      `Total downtime: ${formatDuration(event.resolvedAt - event.openedAt)}`
+    );
+  } else {
+    for (const result of event.results.filter(r => !r.success)) {
+      lines.push(
+        `URL: ${result.url}`,
+        `Status: ${result.status || 'N/A'}`,
+        `Attempts: ${result.attempts}`,
+        `Error: ${result.error || 'Unknown error'}`,
+        ''
       );
-      const errorText = await response.text();
-      console.error('[HEALTH_CHECK] Error details:', errorText);
-      return false;
     }
+  }
+  lines.push(`Sent ${formatAlertTime()} PST`);
 
-    console.log('[HEALTH_CHECK] ✅ Slack alert sent successfully');
-    return true;
-  } catch (error) {
-    console.error('[HEALTH_CHECK] Error sending Slack alert:', error);
-    return false;
+  const prefix = {
+    opened: '[ALERT]',
+    still_failing: '[STILL FAILING]',
+    recovered: '[RECOVERED]',
+    certificate_expiring: '[CERTIFICATE]',
+    certificate_renewed: '[RENEWED]',
+  };
+  const topic =
+    event.kind === 'certificate_expiring' || event.kind === 'certificate_renewed'
+      ? 'TLS certificate'
+      : 'health check';
+  return {
+    subject: `${prefix[event.kind]} Gist GEO ${topic}`,
+    text: lines.join('\n'),
+  };
+}
+
+/**
+ * POST a JSON body, rejecting on network errors and non-2xx responses
+ */
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(10000),
+  });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status}: ${response.statusText}${details ? ` - ${details.slice(0, 200)}` : ''}`);
   }
 }
+
+export function createSlackNotifier(webhookUrl: string, severities: AlertSeverity[]): Notifier {
+  return {
+    type: 'slack',
+    severities,
+    send: event => postJson(webhookUrl, formatSlackAlert(event)),
+  };
+}
+
+export function createWebhookNotifier(url: string, severities: AlertSeverity[]): Notifier {
+  return {
+    type: 'webhook',
+    severities,
+    send: event => postJson(url, formatWebhookPayload(event)),
+  };
+}
+
+export function createDiscordNotifier(webhookUrl: string, severities: AlertSeverity[]): Notifier {
+  return {
+    type: 'discord',
+    severities,
+    send: event => postJson(webhookUrl, formatDiscordAlert(event)),
+  };
+}
+
+export function createPagerDutyNotifier(
+  routingKey: string,
+  severities: AlertSeverity[],
+  eventsUrl: string = 'https://events.pagerduty.com/v2/enqueue'
+): Notifier {
+  return {
+    type: 'pagerduty',
+    severities,
+    send: event => postJson(eventsUrl, formatPagerDutyEvent(event, routingKey)),
+  };
+}
+
+export function createEmailNotifier(
+  smtp: SmtpConfig,
+  from: string,
+  to: string[],
+  severities: AlertSeverity[]
+): Notifier {
+  return {
+    type: 'email',
+    severities,
+    send: event => sendSmtpMail(smtp, { from, to, ...formatEmailAlert(event) }),
+  };
+}
+
+/**
+ * Parse a comma-separated severity list, e.g. "critical,info"
+ */
+function severitiesFromEnv(name: string, fallback: AlertSeverity[]): AlertSeverity[] {
+  const value = process.env[name];
+  if (!value) return fallback;
+
+  const allowed: AlertSeverity[] = ['critical', 'warning', 'info'];
+  return value
+    .split(',')
+    .map(s => s.trim().toLowerCase())
+    .filter((s): s is AlertSeverity => allowed.includes(s as AlertSeverity));
+}
+
+const ALL_SEVERITIES: AlertSeverity[] = ['critical', 'warning', 'info'];
+
+/**
+ * Build the alert channels configured in the environment
+ *
+ * A channel is enabled when its destination variable is set; its
+ * `*_SEVERITIES` variable limits which events it receives:
+ *
+ * - Slack: SLACK_WEBHOOK_URL, SLACK_ALERT_SEVERITIES (default: all)
+ * - Webhook: ALERT_WEBHOOK_URL, ALERT_WEBHOOK_SEVERITIES (default: all)
+ * - Discord: DISCORD_WEBHOOK_URL, DISCORD_ALERT_SEVERITIES (default: all)
+ * - PagerDuty: PAGERDUTY_ROUTING_KEY, PAGERDUTY_ALERT_SEVERITIES
+ *   (default: critical,info so incidents open and resolve without reminders)
+ * - Email: SMTP_HOST and ALERT_EMAIL_TO (comma-separated), plus SMTP_PORT,
+ *   SMTP_SECURE, SMTP_USER, SMTP_PASS, ALERT_EMAIL_FROM and
+ *   EMAIL_ALERT_SEVERITIES (default: critical,info)
+ */
+export function getConfiguredNotifiers(): Notifier[] {
+  const notifiers: Notifier[] = [];
+  const env = process.env;
+
+  if (env.SLACK_WEBHOOK_URL) {
+    notifiers.push(
+      createSlackNotifier(env.SLACK_WEBHOOK_URL, severitiesFromEnv('SLACK_ALERT_SEVERITIES', ALL_SEVERITIES))
+    );
+  }
+
+  if (env.ALERT_WEBHOOK_URL) {
+    notifiers.push(
+      createWebhookNotifier(env.ALERT_WEBHOOK_URL, severitiesFromEnv('ALERT_WEBHOOK_SEVERITIES', ALL_SEVERITIES))
+    );
+  }
+
+  if (env.DISCORD_WEBHOOK_URL) {
+    notifiers.push(
+      createDiscordNotifier(env.DISCORD_WEBHOOK_URL, severitiesFromEnv('DISCORD_ALERT_SEVERITIES', ALL_SEVERITIES))
+    );
+  }
+
+  if (env.PAGERDUTY_ROUTING_KEY) {
+    notifiers.push(
+      createPagerDutyNotifier(
+        env.PAGERDUTY_ROUTING_KEY,
+        severitiesFromEnv('PAGERDUTY_ALERT_SEVERITIES', ['critical', 'info']),
+        env.PAGERDUTY_EVENTS_URL || undefined
+      )
+    );
+  }
+
+  if (env.SMTP_HOST && env.ALERT_EMAIL_TO) {
+    notifiers.push(
+      createEmailNotifier(
+        {
+          host: env.SMTP_HOST,
+          port: Number(env.SMTP_PORT) || 1025,
+          secure: env.SMTP_SECURE === 'true',
+          user: env.SMTP_USER,
+          pass: env.SMTP_PASS,
+        },
+        env.ALERT_EMAIL_FROM || 'alerts@gist-geo.local',
+        env.ALERT_EMAIL_TO.split(',').map(s => s.trim()).filter(Boolean),
+        severitiesFromEnv('EMAIL_ALERT_SEVERITIES', ['critical', 'info'])
+      )
+    );
+  }
+
+  return notifiers;
+}
+
+/**
+ * Send an event to every channel that receives its severity
+ *
+ * @param event - The incident change to report
+ * @param notifiers - Channels to use (default: all configured channels)
+ * @param log - Logger carrying the caller's request/run ID
+ * @returns Promise<NotificationResult[]> - One result per channel; never rejects
+ *
+ * @example
+ * ```typescript
+ * const deliveries = await notifyAll({
+ *   kind: 'opened',
+ *   baseUrl: 'https://example.com',
+ *   results,
+ *   openedAt: Date.now(),
+ * });
+ * const failed = deliveries.filter(d => !d.delivered && !d.skipped);
+ * ```
+ */
+export async function notifyAll(
+  event: HealthAlertEvent,
+  notifiers: Notifier[] = getConfiguredNotifiers(),
+  log: Logger = logger
+): Promise<NotificationResult[]> {
+  const severity = getAlertSeverity(event);
+
+  if (notifiers.length === 0) {
+    log.warn('alert.skipped', { alert: event.kind, reason: 'no_channels' });
+  }
+
+  return Promise.all(
+    notifiers.map(async (notifier): Promise<NotificationResult> => {
+      if (!notifier.severities.includes(severity)) {
+        return { channel: notifier.type, delivered: false, skipped: true };
+      }
+
+      try {
+        await notifier.send(event);
+        log.info('alert.delivered', { channel: notifier.type, alert: event.kind, severity });
+        return { channel: notifier.type, delivered: true, skipped: false };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        log.error('alert.delivery_failed', {
+          channel: notifier.type,
+          alert: event.kind,
+          severity,
+          error: message,
+        });
+        return { channel: notifier.type, delivered: false, skipped: false, error: message };
+      }
+    })
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * OpenMetrics Text Formatting
+ *
+ * Minimal writer for the OpenMetrics exposition format scraped by
+ * Prometheus. Counter families get the mandatory `_total` sample suffix.
+ */
+
+export const OPENMETRICS_CONTENT_TYPE =
+  'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export interface MetricSample {
+  labels?: Record<string, string>;
+  value: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  type: 'counter' | 'gauge';
+  help: string;
+  unit?: string;
+  samples: MetricSample[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Record<string, string> | undefined): string {
+  const entries = Object.entries(labels ?? {});
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+/**
+ * Render metric families as an OpenMetrics document (ending with `# EOF`)
+ */
+export function formatOpenMetrics(families: MetricFamily[]): string {
+  const lines: string[] = [];
+
+  for (const family of families) {
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    if (family.unit) {
+      lines.push(`# UNIT ${family.name} ${family.unit}`);
+    }
+    lines.push(`# HELP ${family.name} ${family.help}`);
+
+    const sampleName = family.type === 'counter' ? `${family.name}_total` : family.name;
+    for (const sample of family.samples) {
+      lines.push(`${sampleName}${formatLabels(sample.labels)} ${sample.value}`);
+    }
+  }
+
+  lines.push('# EOF');
+  return `${lines.join('\n')}\n`;
+}
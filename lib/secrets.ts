@@ -0,0 +1,63 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Shared-Secret Helpers (server-only)
+ *
+ * Machine-to-machine routes (cron, metrics, verbose health) authenticate
+ * with `Authorization: Bearer <secret>`. Comparisons are constant-time so
+ * response timing doesn't reveal how much of a guess was right.
+ */
+
+/**
+ * Secrets accepted from Vercel Cron and engineers triggering runs
+ *
+ * `CRON_SECRET` is the current secret (Vercel Cron sends it automatically).
+ * During rotation, `CRON_SECRET_PREVIOUS` holds the old one (or a
+ * comma-separated list) so callers that haven't switched keep working;
+ * clear it once they have. Previous secrets are only honoured alongside a
+ * current one, so unsetting `CRON_SECRET` shuts cron access off.
+ */
+export function getCronSecrets(): string[] {
+  const current = process.env.CRON_SECRET;
+  if (!current) {
+    return [];
+  }
+
+  const previous = (process.env.CRON_SECRET_PREVIOUS ?? '')
+    .split(',')
+    .map(secret => secret.trim());
+  return [current, ...previous].filter(Boolean);
+}
+
+/**
+ * Compare two strings in constant time, regardless of their lengths
+ */
+export function safeEqual(a: string, b: string): boolean {
+  // Hashing first gives equal-length inputs for timingSafeEqual
+  const digestA = createHash('sha256').update(a).digest();
+  const digestB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Whether the request carries `Bearer <secret>` for any configured secret
+ *
+ * @param authorization - The Authorization header value (may be null)
+ * @param secrets - Accepted secrets; empty values are ignored, so an
+ *   unconfigured secret never matches
+ */
+export function hasBearerSecret(
+  authorization: string | null,
+  secrets: Array<string | undefined>
+): boolean {
+  if (!authorization?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const provided = authorization.slice('Bearer '.length);
+  // Check every secret so timing doesn't reveal which one matched
+  return secrets.reduce<boolean>(
+    (matched, secret) => (secret ? safeEqual(provided, secret) : false) || matched,
+    false
+  );
+}
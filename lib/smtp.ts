@@ -0,0 +1,155 @@
+import net from 'node:net';
+import tls from 'node:tls';
+
+/**
+ * Minimal SMTP Client
+ *
+ * Just enough SMTP to deliver plain-text alert emails: EHLO, optional
+ * AUTH PLAIN, one sender, any number of recipients and a DATA body.
+ * Works against a local stand-in (`bun run dev:smtp`, MailHog, Mailpit)
+ * or a real relay over implicit TLS (`secure: true`, usually port 465).
+ * STARTTLS is not supported.
+ */
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  // Give up on the whole exchange after this long (default: 10000)
+  timeoutMs?: number;
+}
+
+export interface SmtpMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+/**
+ * Deliver a message, rejecting on any unexpected server reply
+ *
+ * @example
+ * ```typescript
+ * await sendSmtpMail(
+ *   { host: 'localhost', port: 1025 },
+ *   { from: 'alerts@example.com', to: ['ops@example.com'], subject: 'Hi', text: 'Hello' }
+ * );
+ * ```
+ */
+export async function sendSmtpMail(
+  config: SmtpConfig,
+  message: SmtpMessage
+): Promise<void> {
+  const socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+  socket.setEncoding('utf8');
+  socket.setTimeout(config.timeoutMs ?? 10000);
+
+  const replies = createReplyReader(socket);
+
+  const expect = async (code: number) => {
+    const reply = await replies.next();
+    if (!reply.startsWith(String(code))) {
+      throw new Error(`SMTP expected ${code}, got: ${reply.trim()}`);
+    }
+  };
+
+  const command = async (line: string, code: number) => {
+    socket.write(`${line}\r\n`);
+    await expect(code);
+  };
+
+  try {
+    await expect(220);
+    await command('EHLO gist-geo-health-check', 250);
+
+    if (config.user && config.pass) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass}`).toString('base64');
+      await command(`AUTH PLAIN ${credentials}`, 235);
+    }
+
+    await command(`MAIL FROM:<${message.from}>`, 250);
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${recipient}>`, 250);
+    }
+
+    await command('DATA', 354);
+    await command(`${formatMessage(message)}\r\n.`, 250);
+    await command('QUIT', 221);
+  } finally {
+    socket.destroy();
+  }
+}
+
+/**
+ * Headers plus body, with line endings normalized and leading dots stuffed
+ */
+function formatMessage(message: SmtpMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map(line => (line.startsWith('.') ? `.${line}` : line));
+
+  return [...headers, '', ...body].join('\r\n');
+}
+
+/**
+ * Yield complete (possibly multi-line) SMTP replies as they arrive
+ */
+function createReplyReader(socket: net.Socket) {
+  let buffer = '';
+  let failure: Error | null = null;
+  let waiting: (() => void) | null = null;
+
+  const wake = () => {
+    waiting?.();
+    waiting = null;
+  };
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    wake();
+  });
+  socket.on('error', (error) => {
+    failure = error;
+    wake();
+  });
+  socket.on('timeout', () => {
+    failure = new Error('SMTP connection timed out');
+    wake();
+  });
+  socket.on('close', () => {
+    failure ??= new Error('SMTP connection closed');
+    wake();
+  });
+
+  return {
+    async next(): Promise<string> {
+      for (;;) {
+        // A reply ends with a line whose code is followed by a space
+        const match = buffer.match(/^(?:\d{3}-[^\n]*\n)*\d{3}(?: [^\n]*)?\r?\n/);
+        if (match) {
+          buffer = buffer.slice(match[0].length);
+          return match[0];
+        }
+        if (failure) {
+          throw failure;
+        }
+        await new Promise<void>(resolve => {
+          waiting = resolve;
+        });
+      }
+    },
+  };
+}
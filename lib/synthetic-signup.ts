@@ -0,0 +1,106 @@
+import { fetchMutation } from 'convex/nextjs';
+import { api } from '@/convex/_generated/api';
+import { logger } from '@/convex/lib/logger';
+import type { Logger } from '@/convex/lib/logger';
+import { SYNTHETIC_SIGNUP_EMAIL } from '@/convex/lib/monitor';
+import { probeDependency } from '@/lib/health-check';
+import type { HealthCheckResult } from '@/lib/health-check';
+
+/**
+ * Synthetic Signup Check
+ *
+ * Exercises the real signup write path the way a visitor does: submits
+ * the reserved address through `createSignup`, submits it again to prove
+ * dedupe, then removes the row. Synthetic rows are flagged in Convex and
+ * skip confirmation emails, waitlist places, counters, exports and Slack.
+ */
+
+// Status page and alerts identify the check by this name
+export const SIGNUP_FLOW_CHECK = { name: 'signup-flow', label: 'Signups' };
+
+// Give up on the whole sequence after this long
+const SYNTHETIC_SIGNUP_TIMEOUT_MS = 15000;
+
+/**
+ * Run the synthetic signup check
+ *
+ * @param secret - MONITOR_SECRET, needed to clean up the synthetic row
+ * @param log - Logger carrying the cron run's ID
+ * @returns HealthCheckResult - Never rejects; `error` says which step failed
+ */
+export async function runSyntheticSignupCheck(
+  secret: string,
+  log: Logger = logger
+): Promise<HealthCheckResult> {
+  const check = await probeDependency(
+    async () => {
+      // Leftovers from an interrupted run would turn the first submit into a duplicate
+      await fetchMutation(api.signups.removeSyntheticSignups, { secret });
+
+      // Always clean up, but report the signup failure over the cleanup's
+      let failure: unknown = null;
+      try {
+        await submitSignupTwice();
+      } catch (error) {
+        failure = error;
+      }
+      const cleanup = await fetchMutation(api.signups.removeSyntheticSignups, { secret });
+      if (failure) {
+        throw failure;
+      }
+
+      if (cleanup.removed !== 1 || !cleanup.flagged) {
+        throw new Error(
+          `Expected 1 flagged signup, found ${cleanup.removed}${cleanup.flagged ? '' : ' (unflagged)'}`
+        );
+      }
+    },
+    { timeoutMs: SYNTHETIC_SIGNUP_TIMEOUT_MS, degradedMs: SYNTHETIC_SIGNUP_TIMEOUT_MS }
+  );
+
+  const result: HealthCheckResult = {
+    name: SIGNUP_FLOW_CHECK.name,
+    url: 'convex:signups.createSignup',
+    success: check.status !== 'error',
+    attempts: 1,
+    responseTime: check.latencyMs,
+    ...(check.error ? { error: check.error } : {}),
+  };
+
+  if (result.success) {
+    log.info('health_check.passed', { check: result.name, responseTime: check.latencyMs });
+  } else {
+    log.error('health_check.failed', { check: result.name, error: check.error });
+  }
+
+  return result;
+}
+
+/**
+ * Submit the reserved address as a new signup, then again as a duplicate
+ */
+async function submitSignupTwice(): Promise<void> {
+  const secret = process.env.SIGNUP_SECRET;
+  if (!secret) {
+    throw new Error('SIGNUP_SECRET not configured');
+  }
+
+  const first = await fetchMutation(api.signups.createSignup, {
+    secret,
+    email: SYNTHETIC_SIGNUP_EMAIL,
+  });
+  if (!first.success) {
+    throw new Error(`Signup rejected: ${first.error.message}`);
+  }
+  if (first.duplicate) {
+    throw new Error('First signup was reported as a duplicate');
+  }
+
+  const second = await fetchMutation(api.signups.createSignup, {
+    secret,
+    email: SYNTHETIC_SIGNUP_EMAIL,
+  });
+  if (!second.success || !second.duplicate) {
+    throw new Error('Repeat signup was not deduplicated');
+  }
+}
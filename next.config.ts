@@ -1,6 +1,12 @@
 import type { NextConfig } from 'next'
 
 const nextConfig: NextConfig = {
+  // Build metadata reported by /api/health?verbose
+  env: {
+    BUILD_COMMIT_SHA:
+      process.env.VERCEL_GIT_COMMIT_SHA ?? process.env.GIT_COMMIT_SHA ?? '',
+    BUILD_TIME: new Date().toISOString(),
+  },
   turbopack: {
     root: __dirname,
   },
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import {
+  convexAuthNextjsMiddleware,
+  createRouteMatcher,
+  nextjsMiddlewareRedirect,
+} from '@convex-dev/auth/nextjs/server';
+import { fetchQuery } from 'convex/nextjs';
+import { api } from '@/convex/_generated/api';
+
+/**
+ * Request Proxy
+ *
+ * Runs Convex Auth on every request (session cookies, /api/auth) and
+ * guards internal routes:
+ * - Signed-out visitors are redirected to /login; API calls get 401
+ * - Signed-in users without the admin role get 403 Forbidden
+ */
+
+const isAdminRoute = createRouteMatcher(['/admin(.*)', '/api/admin(.*)']);
+const isAdminApiRoute = createRouteMatcher(['/api/admin(.*)']);
+
+export const proxy = convexAuthNextjsMiddleware(
+  async (request, { convexAuth }) => {
+    if (!isAdminRoute(request)) {
+      return;
+    }
+
+    if (!(await convexAuth.isAuthenticated())) {
+      // API clients can't follow a redirect to a sign-in page
+      if (isAdminApiRoute(request)) {
+        return NextResponse.json(
+          { error: 'Unauthorized: sign in required' },
+          { status: 401 }
+        );
+      }
+      const next = encodeURIComponent(request.nextUrl.pathname);
+      return nextjsMiddlewareRedirect(request, `/login?next=${next}`);
+    }
+
+    const viewer = await fetchQuery(
+      api.users.viewer,
+      {},
+      { token: await convexAuth.getToken() }
+    );
+
+    if (viewer?.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Forbidden: admin role required' },
+        { status: 403 }
+      );
+    }
+  }
+);
+
+export const config = {
+  // Run on everything except static files and Next internals
+  matcher: ['/((?!.*\\..*|_next).*)', '/', '/(api|trpc)(.*)'],
+};
@@ -0,0 +1,63 @@
+/**
+ * Local SMTP stand-in for alert emails
+ *
+ * Accepts any message on SMTP_PORT (default 1025) and prints it to the
+ * console instead of delivering it. Point the email alert channel at it
+ * with SMTP_HOST=localhost and SMTP_PORT=1025.
+ *
+ * Usage: bun run dev:smtp
+ */
+import net from 'node:net';
+
+const PORT = Number(process.env.SMTP_PORT ?? 1025);
+
+const server = net.createServer(socket => {
+  socket.setEncoding('utf8');
+  let buffer = '';
+  let data: string[] | null = null;
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  reply('220 smtp-sink ready');
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+
+    while ((newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+
+      if (data) {
+        if (line === '.') {
+          console.log(`\n----- message -----\n${data.join('\n')}\n-------------------`);
+          data = null;
+          reply('250 OK: queued');
+        } else {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const verb = line.split(' ')[0].toUpperCase();
+      if (verb === 'EHLO' || verb === 'HELO') {
+        reply('250-smtp-sink');
+        reply('250 AUTH PLAIN');
+      } else if (verb === 'AUTH') {
+        reply('235 Authentication successful');
+      } else if (verb === 'DATA') {
+        data = [];
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (verb === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else {
+        reply('250 OK');
+      }
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`SMTP sink listening on port ${PORT}`);
+});
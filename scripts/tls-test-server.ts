@@ -0,0 +1,54 @@
+/**
+ * Local self-signed TLS server for the certificate check
+ *
+ * Generates a throwaway self-signed certificate with openssl (valid for
+ * TLS_CERT_DAYS, default 5, so the 7-day warning fires), serves it on
+ * TLS_PORT (default 8443) and runs `runTlsCheck` against it once. Point a
+ * TLS check at it with host 'localhost', the port and the printed CA file
+ * as `ca`.
+ *
+ * Usage: bun run dev:tls
+ *        TLS_CERT_DAYS=30 TLS_CERT_HOST=example.test bun run dev:tls
+ */
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import tls from 'node:tls';
+import { runTlsCheck } from '../lib/health-check';
+
+const PORT = Number(process.env.TLS_PORT ?? 8443);
+const DAYS = Number(process.env.TLS_CERT_DAYS ?? 5);
+// Name the certificate covers; anything but "localhost" shows a hostname mismatch
+const CERT_HOST = process.env.TLS_CERT_HOST ?? 'localhost';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'tls-test-'));
+const keyPath = path.join(dir, 'key.pem');
+const certPath = path.join(dir, 'cert.pem');
+
+execFileSync('openssl', [
+  'req', '-x509', '-newkey', 'rsa:2048', '-nodes',
+  '-keyout', keyPath,
+  '-out', certPath,
+  '-days', String(DAYS),
+  '-subj', `/CN=${CERT_HOST}`,
+  '-addext', `subjectAltName=DNS:${CERT_HOST}`,
+], { stdio: 'ignore' });
+
+const cert = readFileSync(certPath, 'utf8');
+
+const server = tls.createServer({ key: readFileSync(keyPath), cert }, socket => {
+  socket.end('ok\n');
+});
+
+server.listen(PORT, async () => {
+  console.log(`TLS test server listening on port ${PORT}`);
+  console.log(`Certificate for ${CERT_HOST}, valid ${DAYS} day(s): ${certPath}`);
+
+  // Trusting the certificate as a CA isolates expiry and hostname checks
+  const result = await runTlsCheck(
+    { name: 'local-tls', host: 'localhost', port: PORT, ca: cert },
+    `https://localhost:${PORT}`
+  );
+  console.log(JSON.stringify(result, null, 2));
+});
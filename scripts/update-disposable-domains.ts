@@ -0,0 +1,41 @@
+/**
+ * Refresh the bundled disposable-email domain list
+ *
+ * Downloads the community-maintained blocklist from
+ * github.com/disposable-email-domains/disposable-email-domains (CC0) and
+ * rewrites convex/lib/disposableDomains.json. Review the diff, commit it
+ * and redeploy Convex to apply the new list.
+ *
+ * Usage: bun run update:disposable-domains
+ */
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const BLOCKLIST_URL =
+  'https://raw.githubusercontent.com/disposable-email-domains/disposable-email-domains/main/disposable_email_blocklist.conf';
+
+const OUTPUT_PATH = join(__dirname, '..', 'convex', 'lib', 'disposableDomains.json');
+
+async function main() {
+  const response = await fetch(BLOCKLIST_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to download blocklist: HTTP ${response.status}`);
+  }
+
+  const domains = Array.from(
+    new Set(
+      (await response.text())
+        .split('\n')
+        .map(line => line.trim().toLowerCase())
+        .filter(line => line && !line.startsWith('#'))
+    )
+  ).sort();
+
+  await writeFile(OUTPUT_PATH, `${JSON.stringify(domains, null, 2)}\n`);
+  console.log(`Wrote ${domains.length} domains to ${OUTPUT_PATH}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+import { getCertificateNotice } from '@/convex/lib/certificates';
+import {
+  DEFAULT_CERTIFICATE_WARN_DAYS,
+  formatPagerDutyEvent,
+  getAlertSeverity,
+  getCertificateWarnThreshold,
+} from '@/lib/health-check';
+import type { HealthAlertEvent } from '@/lib/health-check';
+
+describe('getCertificateWarnThreshold', () => {
+  test('is null outside every threshold', () => {
+    expect(getCertificateWarnThreshold(30, DEFAULT_CERTIFICATE_WARN_DAYS)).toBeNull();
+    expect(getCertificateWarnThreshold(22, DEFAULT_CERTIFICATE_WARN_DAYS)).toBeNull();
+  });
+
+  test('picks the smallest threshold reached, inclusive', () => {
+    expect(getCertificateWarnThreshold(21, DEFAULT_CERTIFICATE_WARN_DAYS)).toBe(21);
+    expect(getCertificateWarnThreshold(8, DEFAULT_CERTIFICATE_WARN_DAYS)).toBe(21);
+    expect(getCertificateWarnThreshold(5, DEFAULT_CERTIFICATE_WARN_DAYS)).toBe(7);
+    expect(getCertificateWarnThreshold(0, DEFAULT_CERTIFICATE_WARN_DAYS)).toBe(1);
+    expect(getCertificateWarnThreshold(-3, DEFAULT_CERTIFICATE_WARN_DAYS)).toBe(1);
+  });
+
+  test('does not depend on the order of warnDays', () => {
+    expect(getCertificateWarnThreshold(5, [1, 21, 7])).toBe(7);
+  });
+});
+
+describe('getCertificateNotice', () => {
+  const VALID_TO = 1_000;
+
+  test('warns when a certificate first reaches a threshold', () => {
+    expect(getCertificateNotice(null, VALID_TO, 21)).toBe('warning');
+  });
+
+  test('announces each threshold once per certificate', () => {
+    const previous = { validTo: VALID_TO, threshold: 21 };
+    expect(getCertificateNotice(previous, VALID_TO, 21)).toBe('none');
+    expect(getCertificateNotice(previous, VALID_TO, 7)).toBe('warning');
+    expect(getCertificateNotice({ validTo: VALID_TO, threshold: 7 }, VALID_TO, 21)).toBe('none');
+  });
+
+  test('warns again for a different certificate inside a threshold', () => {
+    expect(getCertificateNotice({ validTo: VALID_TO, threshold: 7 }, VALID_TO + 1, 7)).toBe('warning');
+  });
+
+  test('resolves an open warning once the certificate is outside every threshold', () => {
+    expect(getCertificateNotice({ validTo: VALID_TO, threshold: 7 }, VALID_TO * 90, null)).toBe('renewed');
+  });
+
+  test('stays quiet for a healthy certificate with no open warning', () => {
+    expect(getCertificateNotice(null, VALID_TO, null)).toBe('none');
+  });
+});
+
+describe('certificate events', () => {
+  const certificate = { baseUrl: 'https://gistgeo.ai', host: 'gistgeo.ai', validTo: 0, daysRemaining: 5 };
+  const expiring: HealthAlertEvent = { kind: 'certificate_expiring', ...certificate };
+  const renewed: HealthAlertEvent = { kind: 'certificate_renewed', ...certificate, daysRemaining: 90 };
+
+  test('route warnings and renewals by severity', () => {
+    expect(getAlertSeverity(expiring)).toBe('warning');
+    expect(getAlertSeverity(renewed)).toBe('info');
+  });
+
+  test('renewal resolves the PagerDuty alert the warning triggered', () => {
+    const trigger = formatPagerDutyEvent(expiring, 'key');
+    const resolve = formatPagerDutyEvent(renewed, 'key');
+
+    expect(trigger.event_action).toBe('trigger');
+    expect(resolve).toEqual({
+      routing_key: 'key',
+      event_action: 'resolve',
+      dedup_key: trigger.dedup_key,
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'bun:test';
+import { csvCell } from '@/lib/csv';
+
+describe('csvCell', () => {
+  test('writes plain values as-is and null as empty', () => {
+    expect(csvCell('jane@example.com')).toBe('jane@example.com');
+    expect(csvCell(true)).toBe('true');
+    expect(csvCell(null)).toBe('');
+  });
+
+  test('quotes commas, quotes and line breaks', () => {
+    expect(csvCell('a,b')).toBe('"a,b"');
+    expect(csvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(csvCell('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  test('neutralizes values a spreadsheet would run as formulas', () => {
+    expect(csvCell('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"');
+    expect(csvCell('+1')).toBe("'+1");
+    expect(csvCell('-1')).toBe("'-1");
+    expect(csvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvCell('\tcmd')).toBe("'\tcmd");
+  });
+});
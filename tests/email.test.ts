@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { isValidEmail, normalizeEmail, suggestEmail } from '@/convex/lib/email';
+
+describe('isValidEmail', () => {
+  test('accepts a@b.c shapes and surrounding whitespace', () => {
+    expect(isValidEmail('jane@example.com')).toBe(true);
+    expect(isValidEmail('  jane@example.com ')).toBe(true);
+  });
+
+  test('rejects missing parts and inner whitespace', () => {
+    expect(isValidEmail('jane@example')).toBe(false);
+    expect(isValidEmail('@example.com')).toBe(false);
+    expect(isValidEmail('jane doe@example.com')).toBe(false);
+  });
+});
+
+describe('normalizeEmail', () => {
+  test('trims and lowercases', () => {
+    expect(normalizeEmail('  Jane@Example.COM ')).toBe('jane@example.com');
+  });
+
+  test('folds alias domains and Gmail dots', () => {
+    expect(normalizeEmail(' Jane.Doe+geo@GoogleMail.com ')).toBe('janedoe@gmail.com');
+    expect(normalizeEmail('jane@protonmail.com')).toBe('jane@proton.me');
+  });
+
+  test('keeps dots outside Gmail', () => {
+    expect(normalizeEmail('jane.doe@outlook.com')).toBe('jane.doe@outlook.com');
+  });
+
+  test('strips plus tags only at providers that support them', () => {
+    expect(normalizeEmail('jane+news@outlook.com')).toBe('jane@outlook.com');
+    expect(normalizeEmail('jane+news@icloud.com')).toBe('jane@icloud.com');
+    expect(normalizeEmail('jane+news@example.com')).toBe('jane+news@example.com');
+    expect(normalizeEmail('jane+news@yahoo.com')).toBe('jane+news@yahoo.com');
+  });
+
+  test('keeps a local part that starts with a plus', () => {
+    expect(normalizeEmail('+tag@gmail.com')).toBe('+tag@gmail.com');
+  });
+
+  test('converts internationalized domains to punycode', () => {
+    expect(normalizeEmail('jane@bücher.de')).toBe('jane@xn--bcher-kva.de');
+  });
+
+  test('drops a trailing dot on the domain', () => {
+    expect(normalizeEmail('jane@example.com.')).toBe('jane@example.com');
+  });
+
+  test('returns input without an @ lowercased', () => {
+    expect(normalizeEmail(' NotAnEmail ')).toBe('notanemail');
+  });
+});
+
+describe('suggestEmail', () => {
+  test('corrects likely typos of popular domains', () => {
+    expect(suggestEmail('jane@gmial.com')).toBe('jane@gmail.com');
+    expect(suggestEmail('jane@gmail.co')).toBe('jane@gmail.com');
+    expect(suggestEmail('jane@hotmial.com')).toBe('jane@hotmail.com');
+    expect(suggestEmail('jane@outlok.com')).toBe('jane@outlook.com');
+  });
+
+  test('keeps the local part as typed', () => {
+    expect(suggestEmail(' Jane.Doe@Gmial.com ')).toBe('Jane.Doe@gmail.com');
+  });
+
+  test('leaves popular domains alone', () => {
+    expect(suggestEmail('jane@gmail.com')).toBeNull();
+    expect(suggestEmail('jane@GMAIL.com')).toBeNull();
+  });
+
+  test('never corrects known legitimate domains', () => {
+    for (const domain of ['ymail.com', 'mail.com', 'email.com', 'hotmail.de', 'yahoo.fr', 'fastmail.fm']) {
+      expect(suggestEmail(`jane@${domain}`)).toBeNull();
+    }
+  });
+
+  test('only allows one edit for short domains', () => {
+    expect(suggestEmail('jane@acme.com')).toBeNull();
+  });
+
+  test('ignores unrelated domains and malformed input', () => {
+    expect(suggestEmail('jane@example.org')).toBeNull();
+    expect(suggestEmail('jane')).toBeNull();
+    expect(suggestEmail('jane@')).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test';
+import { api } from '@/convex/_generated/api';
+import { createConvexTest } from './helpers/convex';
+
+function cronRun(startedAt: number, success: boolean) {
+  return {
+    runId: `run-${startedAt}`,
+    startedAt,
+    durationMs: 500,
+    success,
+    results: [],
+    notice: 'none' as const,
+    alertsSent: [],
+    alertsFailed: [],
+  };
+}
+
+describe('health.ping', () => {
+  test('reports when the last successful cron run finished', async () => {
+    const t = createConvexTest();
+    await t.run(async ctx => {
+      await ctx.db.insert('cronRuns', cronRun(1_000, true));
+      // Later runs that failed don't show the cron is doing its job
+      await ctx.db.insert('cronRuns', cronRun(2_000, false));
+    });
+
+    expect(await t.query(api.health.ping, {})).toEqual({ ok: true, lastCronRunAt: 1_500 });
+  });
+
+  test('reports no run while none has succeeded', async () => {
+    const t = createConvexTest();
+    await t.run(ctx => ctx.db.insert('cronRuns', cronRun(1_000, false)));
+
+    expect(await t.query(api.health.ping, {})).toEqual({ ok: true, lastCronRunAt: null });
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Convex backend for unit tests, via `convex-test`.
+ *
+ * Runs against the real schema, so documents are validated and index
+ * queries behave as they do in a deployment. convex-test finds function
+ * modules through Vite's `import.meta.glob`; Bun has no equivalent, so the
+ * map is built from the files under convex/ instead.
+ */
+import { Glob } from 'bun';
+import path from 'node:path';
+import { convexTest } from 'convex-test';
+import schema from '@/convex/schema';
+
+const CONVEX_DIR = path.resolve(import.meta.dir, '../../convex');
+
+const modules = Object.fromEntries(
+  [...new Glob('**/*.{js,ts}').scanSync(CONVEX_DIR)]
+    .filter(file => !file.endsWith('.d.ts'))
+    .map(file => [`../convex/${file}`, () => import(path.join(CONVEX_DIR, file))])
+);
+
+export function createConvexTest() {
+  return convexTest(schema, modules);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+import { getIncidentTransition } from '@/convex/lib/incidents';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('getIncidentTransition', () => {
+  const open = { lastNotifiedAt: 0 };
+
+  test('does nothing while healthy with no open incident', () => {
+    expect(getIncidentTransition(null, true, HOUR, HOUR)).toEqual({ action: 'none' });
+  });
+
+  test('opens an incident on the first failing run', () => {
+    expect(getIncidentTransition(null, false, 0, HOUR)).toEqual({ action: 'open' });
+  });
+
+  test('stays quiet while failing inside the re-notify interval', () => {
+    expect(getIncidentTransition(open, false, HOUR - 1, HOUR)).toEqual({
+      action: 'update',
+      incident: open,
+      renotify: false,
+    });
+  });
+
+  test('reminds once the re-notify interval has passed', () => {
+    expect(getIncidentTransition(open, false, HOUR, HOUR)).toEqual({
+      action: 'update',
+      incident: open,
+      renotify: true,
+    });
+  });
+
+  test('resolves the open incident on the first passing run', () => {
+    expect(getIncidentTransition(open, true, 5, HOUR)).toEqual({
+      action: 'resolve',
+      incident: open,
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from 'bun:test';
+import { internal } from '@/convex/_generated/api';
+import type { MutationCtx } from '@/convex/_generated/server';
+import type { Doc } from '@/convex/_generated/dataModel';
+import {
+  SIGNUPS_BY_SOURCE_PREFIX,
+  decrementSignupSource,
+  getCounter,
+  incrementCounter,
+  listCounters,
+  signupSourceCounter,
+} from '@/convex/lib/counters';
+import {
+  WAITLIST_SIZE_COUNTER,
+  computePosition,
+  createWaitlistEntry,
+  setConfirmedReferrals,
+} from '@/convex/lib/waitlist';
+import { createConvexTest } from './helpers/convex';
+
+type WaitlistEntry = Awaited<ReturnType<typeof createWaitlistEntry>>;
+
+async function addSignup(ctx: MutationCtx, email: string, entry?: WaitlistEntry) {
+  const id = await ctx.db.insert('signups', {
+    email,
+    status: 'confirmed',
+    ...(entry ?? (await createWaitlistEntry(ctx))),
+  });
+  return (await ctx.db.get(id))!;
+}
+
+/**
+ * Record a confirmed referral and its credit, as confirmSignup would
+ */
+async function refer(ctx: MutationCtx, referrer: Doc<'signups'>, referee: Doc<'signups'>) {
+  await ctx.db.insert('referrals', { referrerId: referrer._id, refereeId: referee._id, status: 'confirmed' });
+  await ctx.db.patch(referee._id, { referredBy: referrer._id });
+  const current = (await ctx.db.get(referrer._id))!;
+  await setConfirmedReferrals(ctx, current, (current.confirmedReferrals ?? 0) + 1);
+}
+
+describe('migrations.normalizeEmails', () => {
+  test('merges a duplicate that has its own referrer and referees', async () => {
+    const t = createConvexTest();
+
+    const ids = await t.run(async ctx => {
+      // The duplicate row is newer but holds the earlier place, #1
+      const duplicateEntry = await createWaitlistEntry(ctx);
+      const firstReferrer = await addSignup(ctx, 'first@example.com');
+      const secondReferrer = await addSignup(ctx, 'second@example.com');
+      const keeper = await addSignup(ctx, 'Jane@Gmail.com');
+      const duplicate = await addSignup(ctx, 'jane+news@gmail.com', duplicateEntry);
+      const referee = await addSignup(ctx, 'friend@example.com');
+      await refer(ctx, firstReferrer, keeper);
+      await refer(ctx, secondReferrer, duplicate);
+      await refer(ctx, duplicate, referee);
+      return {
+        firstReferrer: firstReferrer._id,
+        secondReferrer: secondReferrer._id,
+        keeper: keeper._id,
+        duplicate: duplicate._id,
+        duplicateCode: duplicate.referralCode,
+        referee: referee._id,
+      };
+    });
+
+    await t.mutation(internal.migrations.normalizeEmails, {});
+
+    await t.run(async ctx => {
+      expect(await ctx.db.get(ids.duplicate)).toBeNull();
+
+      const keeper = (await ctx.db.get(ids.keeper))!;
+      expect(keeper).toMatchObject({
+        waitlistNumber: 1,
+        referralCode: ids.duplicateCode,
+        referredBy: ids.firstReferrer,
+        confirmedReferrals: 1,
+      });
+
+      // The duplicate's referee now points at the surviving row
+      expect((await ctx.db.get(ids.referee))!.referredBy).toBe(ids.keeper);
+      const edges = await ctx.db.query('referrals').collect();
+      expect(edges.map(edge => [edge.referrerId, edge.refereeId])).toEqual([
+        [ids.firstReferrer, ids.keeper],
+        [ids.keeper, ids.referee],
+      ]);
+
+      // The keeper already had a referrer, so the second one loses its credit
+      expect((await ctx.db.get(ids.secondReferrer))!.confirmedReferrals).toBe(0);
+      expect((await ctx.db.get(ids.firstReferrer))!.confirmedReferrals).toBe(1);
+
+      // Scores: keeper 1 - 10, firstReferrer 2 - 10, secondReferrer 3, referee 5
+      expect(await getCounter(ctx, WAITLIST_SIZE_COUNTER)).toBe(4);
+      const positions = await Promise.all(
+        [ids.keeper, ids.firstReferrer, ids.secondReferrer, ids.referee].map(async id =>
+          computePosition(ctx, (await ctx.db.get(id))!)
+        )
+      );
+      expect(positions).toEqual([1, 2, 3, 4]);
+    });
+  });
+});
+
+describe('migrations.backfillSignupCounters', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('ends with the true totals despite signups and deletes mid-run', async () => {
+    const t = createConvexTest();
+
+    const ids = await t.run(async ctx => {
+      const ids = [];
+      for (let i = 0; i < 150; i++) {
+        ids.push(await ctx.db.insert('signups', { email: `user${i}@example.com`, source: 'landing' }));
+      }
+      // Counters that have drifted, including one for a source with no rows
+      await incrementCounter(ctx, signupSourceCounter('landing'), 999);
+      await incrementCounter(ctx, signupSourceCounter('retired'), 5);
+      return ids;
+    });
+
+    // The first page tallies the first 100 rows and schedules the next
+    await t.mutation(internal.migrations.backfillSignupCounters, {});
+
+    await t.run(async ctx => {
+      // One row the scan has passed and one it hasn't reached are deleted
+      for (const id of [ids[0], ids[149]]) {
+        await decrementSignupSource(ctx, (await ctx.db.get(id))!);
+        await ctx.db.delete(id);
+      }
+      await ctx.db.insert('signups', { email: 'late@example.com', source: 'landing' });
+      await incrementCounter(ctx, signupSourceCounter('landing'));
+    });
+
+    await t.finishAllScheduledFunctions(jest.runAllTimers);
+
+    await t.run(async ctx => {
+      expect(await listCounters(ctx, SIGNUPS_BY_SOURCE_PREFIX)).toEqual({ landing: 149, retired: 0 });
+      expect(await ctx.db.query('counters').collect()).toHaveLength(2);
+    });
+  });
+});
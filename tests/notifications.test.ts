@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, jest, mock, test } from 'bun:test';
+import { internal } from '@/convex/_generated/api';
+import { createConvexTest } from './helpers/convex';
+
+const realFetch = globalThis.fetch;
+
+beforeEach(() => {
+  process.env.SLACK_WEBHOOK_URL = 'https://hooks.slack.test/digest';
+  // Keep the rescheduled flush from running after the test ends
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  delete process.env.SLACK_WEBHOOK_URL;
+  globalThis.fetch = realFetch;
+  jest.useRealTimers();
+});
+
+function mockSlack(status: number) {
+  const fetch = mock(async () => new Response('', { status }));
+  globalThis.fetch = fetch as unknown as typeof globalThis.fetch;
+  return fetch;
+}
+
+async function queueSignup(t: ReturnType<typeof createConvexTest>) {
+  return t.run(async ctx => {
+    const signupId = await ctx.db.insert('signups', { email: 'jane@example.com' });
+    await ctx.db.insert('signupNotificationQueue', { signupId });
+    return signupId;
+  });
+}
+
+describe('flushSignupDigest', () => {
+  test('clears the queue once Slack accepts the digest', async () => {
+    const t = createConvexTest();
+    await queueSignup(t);
+    const fetch = mockSlack(200);
+
+    await t.action(internal.notifications.flushSignupDigest, {});
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(await t.run(ctx => ctx.db.query('signupNotificationQueue').collect())).toEqual([]);
+  });
+
+  test('queues the signups again when Slack rejects the digest', async () => {
+    const t = createConvexTest();
+    const signupId = await queueSignup(t);
+    mockSlack(500);
+
+    await t.action(internal.notifications.flushSignupDigest, {});
+
+    await t.run(async ctx => {
+      const queued = await ctx.db.query('signupNotificationQueue').collect();
+      expect(queued.map(entry => entry.signupId)).toEqual([signupId]);
+      // ...with a flush scheduled for them
+      expect(await ctx.db.query('signupDigestSchedule').collect()).toHaveLength(1);
+    });
+  });
+});
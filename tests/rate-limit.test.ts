@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, jest, setSystemTime, test } from 'bun:test';
+import { internal } from '@/convex/_generated/api';
+import {
+  consumeRateLimit,
+  fullAt,
+  rateLimitFromEnv,
+  refillTokens,
+} from '@/convex/lib/rateLimit';
+import { createConvexTest } from './helpers/convex';
+
+const CONFIG = { capacity: 2, windowMs: 60_000 };
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('refillTokens', () => {
+  test('starts a new bucket full', () => {
+    expect(refillTokens(null, 0, CONFIG)).toBe(2);
+  });
+
+  test('refills continuously, capped at capacity', () => {
+    const bucket = { tokens: 0, updatedAt: 0 };
+    expect(refillTokens(bucket, 15_000, CONFIG)).toBe(0.5);
+    expect(refillTokens(bucket, 60_000, CONFIG)).toBe(2);
+    expect(refillTokens(bucket, 600_000, CONFIG)).toBe(2);
+  });
+});
+
+describe('fullAt', () => {
+  test('is when the missing tokens have refilled', () => {
+    expect(fullAt(0, 1000, CONFIG)).toBe(61_000);
+    expect(fullAt(1, 1000, CONFIG)).toBe(31_000);
+    expect(fullAt(2, 1000, CONFIG)).toBe(1000);
+  });
+});
+
+describe('consumeRateLimit', () => {
+  test('allows a burst up to capacity, then refills over the window', async () => {
+    await createConvexTest().run(async ctx => {
+      setSystemTime(new Date(0));
+
+      expect(await consumeRateLimit(ctx, 'k', CONFIG)).toBe(true);
+      expect(await consumeRateLimit(ctx, 'k', CONFIG)).toBe(true);
+      expect(await consumeRateLimit(ctx, 'k', CONFIG)).toBe(false);
+
+      setSystemTime(new Date(30_000));
+      expect(await consumeRateLimit(ctx, 'k', CONFIG)).toBe(true);
+      expect(await consumeRateLimit(ctx, 'k', CONFIG)).toBe(false);
+    });
+  });
+
+  test('keeps keys independent', async () => {
+    await createConvexTest().run(async ctx => {
+      setSystemTime(new Date(0));
+
+      await consumeRateLimit(ctx, 'a', CONFIG);
+      await consumeRateLimit(ctx, 'a', CONFIG);
+      expect(await consumeRateLimit(ctx, 'a', CONFIG)).toBe(false);
+      expect(await consumeRateLimit(ctx, 'b', CONFIG)).toBe(true);
+    });
+  });
+
+});
+
+describe('rateLimits.expire', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('deletes a bucket once it has refilled completely', async () => {
+    jest.useFakeTimers();
+    const t = createConvexTest();
+    const buckets = () => t.run(ctx => ctx.db.query('rateLimits').collect());
+
+    await t.run(ctx => consumeRateLimit(ctx, 'k', CONFIG));
+    // Used again halfway, so it is full 30s after the first deletion was due
+    jest.advanceTimersByTime(15_000);
+    await t.run(ctx => consumeRateLimit(ctx, 'k', CONFIG));
+
+    jest.advanceTimersByTime(15_000);
+    await t.finishInProgressScheduledFunctions();
+    expect(await buckets()).toHaveLength(1);
+
+    await t.finishAllScheduledFunctions(jest.runAllTimers);
+    expect(await buckets()).toHaveLength(0);
+  });
+});
+
+describe('rateLimitFromEnv', () => {
+  const NAME = 'TEST_RATE_LIMIT';
+
+  afterEach(() => {
+    delete process.env[NAME];
+  });
+
+  test('parses "<count>/<seconds>"', () => {
+    process.env[NAME] = '5/3600';
+    expect(rateLimitFromEnv(NAME, CONFIG)).toEqual({ capacity: 5, windowMs: 3_600_000 });
+  });
+
+  test('falls back when unset or malformed', () => {
+    expect(rateLimitFromEnv(NAME, CONFIG)).toBe(CONFIG);
+    process.env[NAME] = '5 per hour';
+    expect(rateLimitFromEnv(NAME, CONFIG)).toBe(CONFIG);
+  });
+});
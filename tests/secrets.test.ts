@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { getCronSecrets, hasBearerSecret, safeEqual } from '@/lib/secrets';
+
+const env = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...env };
+});
+
+describe('getCronSecrets', () => {
+  test('is empty when nothing is configured', () => {
+    delete process.env.CRON_SECRET;
+    delete process.env.CRON_SECRET_PREVIOUS;
+    expect(getCronSecrets()).toEqual([]);
+  });
+
+  test('lists the current secret first, then previous ones', () => {
+    process.env.CRON_SECRET = 'new';
+    process.env.CRON_SECRET_PREVIOUS = ' old , older ,';
+    expect(getCronSecrets()).toEqual(['new', 'old', 'older']);
+  });
+
+  test('ignores previous secrets while the current one is unset', () => {
+    delete process.env.CRON_SECRET;
+    process.env.CRON_SECRET_PREVIOUS = 'old';
+    expect(getCronSecrets()).toEqual([]);
+  });
+});
+
+describe('safeEqual', () => {
+  test('compares values of any length', () => {
+    expect(safeEqual('secret', 'secret')).toBe(true);
+    expect(safeEqual('secret', 'secret2')).toBe(false);
+    expect(safeEqual('', 'secret')).toBe(false);
+  });
+});
+
+describe('hasBearerSecret', () => {
+  test('accepts the current or a previous secret during rotation', () => {
+    const secrets = ['new', 'old'];
+    expect(hasBearerSecret('Bearer new', secrets)).toBe(true);
+    expect(hasBearerSecret('Bearer old', secrets)).toBe(true);
+    expect(hasBearerSecret('Bearer older', secrets)).toBe(false);
+  });
+
+  test('requires the Bearer scheme', () => {
+    expect(hasBearerSecret('new', ['new'])).toBe(false);
+    expect(hasBearerSecret('Basic new', ['new'])).toBe(false);
+    expect(hasBearerSecret(null, ['new'])).toBe(false);
+  });
+
+  test('never matches an unconfigured secret', () => {
+    expect(hasBearerSecret('Bearer ', ['', undefined])).toBe(false);
+    expect(hasBearerSecret('Bearer undefined', [undefined])).toBe(false);
+  });
+});
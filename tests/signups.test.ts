@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from 'bun:test';
+import { api } from '@/convex/_generated/api';
+import { createConvexTest } from './helpers/convex';
+
+const SECRET = 'test-signup-secret';
+
+const ENV = {
+  SIGNUP_SECRET: SECRET,
+  SIGNUP_IP_RATE_LIMIT: '2/3600',
+  ERASURE_HASH_SECRET: 'test-erasure-secret',
+  LINK_SIGNING_SECRET: 'test-link-secret',
+};
+
+beforeEach(() => {
+  Object.assign(process.env, ENV);
+  // Keep scheduled emails and digests from running after the test ends
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  for (const name of Object.keys(ENV)) delete process.env[name];
+  jest.useRealTimers();
+});
+
+describe('createSignup abuse checks', () => {
+  test('limits each IP whatever the form sends', async () => {
+    const t = createConvexTest();
+    const submit = (email: string, clientIp: string) =>
+      t.mutation(api.signups.createSignup, { secret: SECRET, email, clientIp, elapsedMs: 5000 });
+
+    expect((await submit('a@example.com', '203.0.113.1')).success).toBe(true);
+    expect((await submit('b@example.com', '203.0.113.1')).success).toBe(true);
+    expect(await submit('c@example.com', '203.0.113.1')).toEqual({
+      success: false,
+      error: expect.objectContaining({ code: 'RATE_LIMITED' }),
+    });
+    expect((await submit('c@example.com', '203.0.113.2')).success).toBe(true);
+
+    const blocked = await t.run(ctx => ctx.db.query('blockedSignupAttempts').collect());
+    expect(blocked.map(attempt => attempt.reason)).toEqual(['ip_rate_limit']);
+  });
+
+  test('rejects callers without the signup secret', async () => {
+    const t = createConvexTest();
+    await expect(
+      t.mutation(api.signups.createSignup, { secret: 'guess', email: 'a@example.com' })
+    ).rejects.toThrow();
+  });
+});
+
+describe('createSignup for a known address', () => {
+  test('leaves an unsubscribe in place and sends nothing', async () => {
+    const t = createConvexTest();
+    await t.run(ctx =>
+      ctx.db.insert('signups', {
+        email: 'gone@example.com',
+        normalizedEmail: 'gone@example.com',
+        status: 'unsubscribed',
+        unsubscribedAt: 1,
+      })
+    );
+
+    const result = await t.mutation(api.signups.createSignup, {
+      secret: SECRET,
+      email: 'gone@example.com',
+      clientIp: '203.0.113.1',
+    });
+
+    expect(result).toMatchObject({ success: true, duplicate: true });
+    const [signup] = await t.run(ctx => ctx.db.query('signups').collect());
+    expect(signup.status).toBe('unsubscribed');
+    expect(await t.run(ctx => ctx.db.query('confirmationTokens').collect())).toHaveLength(0);
+  });
+});
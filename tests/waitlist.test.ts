@@ -0,0 +1,218 @@
+import { describe, expect, test } from 'bun:test';
+import type { MutationCtx } from '@/convex/_generated/server';
+import type { Id } from '@/convex/_generated/dataModel';
+import { getCounter } from '@/convex/lib/counters';
+import {
+  BUCKET_FANOUT,
+  BUCKET_LEVELS,
+  REFERRAL_BOOST,
+  WAITLIST_COUNTER,
+  WAITLIST_SIZE_COUNTER,
+  bucketRangesBelow,
+  computePosition,
+  createWaitlistEntry,
+  moveScore,
+  removeFromWaitlist,
+  scoreBuckets,
+  waitlistScore,
+} from '@/convex/lib/waitlist';
+import { createConvexTest } from './helpers/convex';
+
+/**
+ * Put a signup on the waitlist with a given number and referral credit
+ */
+async function addSignup(ctx: MutationCtx, waitlistNumber?: number, confirmedReferrals = 0) {
+  const score =
+    waitlistNumber === undefined ? undefined : waitlistScore(waitlistNumber, confirmedReferrals);
+  const id = await ctx.db.insert('signups', {
+    email: `signup${waitlistNumber}@example.com`,
+    waitlistNumber,
+    waitlistScore: score,
+    confirmedReferrals,
+  });
+  await moveScore(ctx, undefined, score);
+  return id;
+}
+
+async function positionOf(ctx: MutationCtx, id: Id<'signups'>) {
+  return computePosition(ctx, (await ctx.db.get(id))!);
+}
+
+describe('waitlistScore', () => {
+  test('subtracts the boost for each confirmed referral', () => {
+    expect(waitlistScore(100, 0)).toBe(100);
+    expect(waitlistScore(100, 3)).toBe(100 - 3 * REFERRAL_BOOST);
+  });
+
+  test('can go below 1 so heavy referrers keep their lead', () => {
+    expect(waitlistScore(5, 2)).toBe(5 - 2 * REFERRAL_BOOST);
+  });
+});
+
+describe('bucketRangesBelow', () => {
+  // Tally scores into buckets the way moveScore does, then sum the ranges
+  function countBelow(scores: number[], score: number) {
+    const counts = new Map<string, number>();
+    for (const { level, bucket } of scores.flatMap(scoreBuckets)) {
+      const key = `${level}:${bucket}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    let total = 0;
+    for (const [key, count] of counts) {
+      const [level, bucket] = key.split(':').map(Number);
+      for (const range of bucketRangesBelow(score)) {
+        if (
+          range.level === level &&
+          (range.from === null || bucket >= range.from) &&
+          bucket < range.to
+        ) {
+          total += count;
+        }
+      }
+    }
+    return total;
+  }
+
+  test('counts every lower score exactly once', () => {
+    const top = BUCKET_FANOUT ** BUCKET_LEVELS;
+    const scores = [-top - 3, -250, -17, -1, 0, 1, 15, 16, 17, 255, 256, 4097, top, top + 1, 3 * top];
+
+    for (const score of [...scores, -top, -16, 2, 300, 2 * top]) {
+      const expected = scores.filter(other => other < score).length;
+      expect(countBelow(scores, score)).toBe(expected);
+    }
+  });
+
+  test('reads fewer than FANOUT buckets per level below the top', () => {
+    for (const score of [-123_456, 0, 65_535, 1_000_000]) {
+      for (const { level, from, to } of bucketRangesBelow(score)) {
+        if (level < BUCKET_LEVELS) {
+          expect(to - from!).toBeLessThan(BUCKET_FANOUT);
+        }
+      }
+    }
+  });
+});
+
+describe('computePosition', () => {
+  test('ranks by waitlist number without referrals', async () => {
+    await createConvexTest().run(async ctx => {
+      const first = await addSignup(ctx, 1);
+      const second = await addSignup(ctx, 2);
+      const third = await addSignup(ctx, 3);
+
+      expect(await positionOf(ctx, first)).toBe(1);
+      expect(await positionOf(ctx, second)).toBe(2);
+      expect(await positionOf(ctx, third)).toBe(3);
+    });
+  });
+
+  test('moves referrers ahead of the people they passed', async () => {
+    await createConvexTest().run(async ctx => {
+      const early = await addSignup(ctx, 1);
+      const passed = await addSignup(ctx, 8);
+      const referrer = await addSignup(ctx, 15, 1);
+
+      expect(await positionOf(ctx, early)).toBe(1);
+      expect(await positionOf(ctx, referrer)).toBe(2);
+      expect(await positionOf(ctx, passed)).toBe(3);
+    });
+  });
+
+  test("accounts for other signups' boosts", async () => {
+    await createConvexTest().run(async ctx => {
+      const mine = await addSignup(ctx, 20, 1);
+      await addSignup(ctx, 30, 3);
+
+      // 30 - 30 = 0 beats 20 - 10 = 10
+      expect(await positionOf(ctx, mine)).toBe(2);
+    });
+  });
+
+  test('breaks ties by waitlist number, giving distinct positions', async () => {
+    await createConvexTest().run(async ctx => {
+      const earlier = await addSignup(ctx, 5);
+      const later = await addSignup(ctx, 15, 1);
+
+      expect(await positionOf(ctx, earlier)).toBe(1);
+      expect(await positionOf(ctx, later)).toBe(2);
+    });
+  });
+
+  test('counts signups far apart in the queue', async () => {
+    await createConvexTest().run(async ctx => {
+      const top = BUCKET_FANOUT ** BUCKET_LEVELS;
+      await addSignup(ctx, 3, top);
+      await addSignup(ctx, 40);
+      await addSignup(ctx, 4_100);
+      const mine = await addSignup(ctx, 2 * top);
+
+      expect(await positionOf(ctx, mine)).toBe(4);
+    });
+  });
+
+  test('ignores signups that are not on the waitlist', async () => {
+    await createConvexTest().run(async ctx => {
+      await addSignup(ctx, undefined);
+      const only = await addSignup(ctx, 7);
+
+      expect(await positionOf(ctx, only)).toBe(1);
+    });
+  });
+
+  test('returns null for a signup without a place', async () => {
+    await createConvexTest().run(async ctx => {
+      const unplaced = await addSignup(ctx, undefined);
+
+      expect(await positionOf(ctx, unplaced)).toBeNull();
+    });
+  });
+});
+
+describe('waitlist size', () => {
+  test('grows with new entries and shrinks on removal without reusing numbers', async () => {
+    await createConvexTest().run(async ctx => {
+      const first = await createWaitlistEntry(ctx);
+      const second = await createWaitlistEntry(ctx);
+      expect([first.waitlistNumber, second.waitlistNumber]).toEqual([1, 2]);
+      expect(first.waitlistScore).toBe(1);
+
+      const id = await ctx.db.insert('signups', { email: 'a@example.com', ...first });
+      await removeFromWaitlist(ctx, (await ctx.db.get(id))!);
+      await ctx.db.delete(id);
+
+      expect(await getCounter(ctx, WAITLIST_SIZE_COUNTER)).toBe(1);
+      expect((await createWaitlistEntry(ctx)).waitlistNumber).toBe(3);
+      expect(await getCounter(ctx, WAITLIST_COUNTER)).toBe(3);
+    });
+  });
+});
+
+describe('removeFromWaitlist', () => {
+  test("takes back a confirmed referral's credit and place", async () => {
+    await createConvexTest().run(async ctx => {
+      const referrer = await addSignup(ctx, 20, 2);
+      const referee = await addSignup(ctx, 21);
+      const pending = await addSignup(ctx, 22);
+      await ctx.db.insert('referrals', { referrerId: referrer, refereeId: referee, status: 'confirmed' });
+      await ctx.db.insert('referrals', { referrerId: referrer, refereeId: pending, status: 'pending' });
+
+      await removeFromWaitlist(ctx, (await ctx.db.get(referee))!);
+      await ctx.db.delete(referee);
+      const updated = (await ctx.db.get(referrer))!;
+      expect(updated.confirmedReferrals).toBe(1);
+      expect(updated.waitlistScore).toBe(waitlistScore(20, 1));
+      // 20 - 10 = 10 is still ahead of 22
+      expect(await positionOf(ctx, referrer)).toBe(1);
+      expect(await positionOf(ctx, pending)).toBe(2);
+
+      // A pending referral never earned credit
+      await removeFromWaitlist(ctx, (await ctx.db.get(pending))!);
+      await ctx.db.delete(pending);
+      expect((await ctx.db.get(referrer))!.confirmedReferrals).toBe(1);
+      expect(await ctx.db.query('referrals').collect()).toHaveLength(0);
+      expect(await ctx.db.query('waitlistBuckets').withIndex('by_level_bucket', q => q.eq('level', 0)).collect())
+        .toEqual([expect.objectContaining({ bucket: 10, count: 1 })]);
+    });
+  });
+});